@@ -4,7 +4,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ScanFlowProvider } from "@/components/ScanFlowProvider";
+import { CameraProvider } from "@/components/CameraProvider";
 import Index from "./pages/Index";
+import Capture from "./pages/Capture";
+import Scan from "./pages/Scan";
+import Results from "./pages/Results";
+import History from "./pages/History";
+import Compare from "./pages/Compare";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,11 +23,20 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <ScanFlowProvider>
+            <CameraProvider>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/capture" element={<Capture />} />
+                <Route path="/scan" element={<Scan />} />
+                <Route path="/results/:scanId" element={<Results />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/compare/:beforeId/:afterId" element={<Compare />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </CameraProvider>
+          </ScanFlowProvider>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
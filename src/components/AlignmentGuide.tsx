@@ -0,0 +1,57 @@
+import { cn } from "@/lib/utils";
+import { Alignment } from "@/lib/faceAlignment";
+import { GuideOverlay } from "@/lib/captureProtocol";
+
+interface AlignmentGuideProps {
+  guide: GuideOverlay;
+  alignment: Alignment | null;
+  // Shown when there is no live cue, e.g. for angles without pose guidance
+  instruction: string;
+  isModelLoading?: boolean;
+  className?: string;
+}
+
+// Outline for each guide; face guides leave room above for the hairline
+const GUIDE_SHAPES: Record<GuideOverlay, string> = {
+  face_front: "top-[22%] w-[55%] aspect-[3/4] rounded-[50%]",
+  face_left: "top-[22%] w-[55%] aspect-[3/4] rounded-[50%]",
+  face_right: "top-[22%] w-[55%] aspect-[3/4] rounded-[50%]",
+  crown: "top-[18%] w-[70%] aspect-square rounded-full",
+  top: "top-[14%] w-[80%] aspect-square rounded-full",
+};
+
+export const AlignmentGuide = ({ guide, alignment, instruction, isModelLoading = false, className }: AlignmentGuideProps) => {
+  const status = alignment?.status ?? 'no_face';
+  const cue = alignment?.cue ?? (isModelLoading ? "Starting face guidance…" : instruction);
+
+  return (
+    <div className={cn("absolute inset-0 pointer-events-none z-10", className)}>
+      {/* Target outline */}
+      <div
+        className={cn(
+          "absolute left-1/2 -translate-x-1/2 border-2 border-dashed transition-colors duration-300",
+          GUIDE_SHAPES[guide],
+          status === 'aligned' ? "border-primary shadow-[0_0_24px_hsl(var(--primary)/0.4)]" :
+          status === 'adjust' ? "border-amber-400/80" :
+          "border-muted-foreground/40"
+        )}
+      />
+
+      {/* Cue */}
+      <div className="absolute bottom-6 inset-x-0 flex justify-center px-4">
+        <div
+          className={cn(
+            "px-4 py-2 rounded-full backdrop-blur-sm border text-sm font-medium transition-colors",
+            status === 'aligned' ? "bg-primary/20 border-primary/60 text-primary" :
+            status === 'adjust' ? "bg-background/80 border-amber-400/60 text-amber-500" :
+            "bg-background/80 border-border text-muted-foreground"
+          )}
+          role="status"
+          aria-live="polite"
+        >
+          {cue}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { cn } from "@/lib/utils";
+import { BurstResult } from "@/lib/burstCapture";
+
+interface BurstDebugPanelProps {
+  burst: BurstResult;
+}
+
+const pct = (value: number) => Math.round(value * 100);
+
+// QA view: every frame sampled for the last capture with its scores; the kept frame is outlined
+export const BurstDebugPanel = ({ burst }: BurstDebugPanelProps) => {
+  return (
+    <div className="glass-panel p-3 space-y-2">
+      <p className="text-[10px] font-mono uppercase tracking-wide text-muted-foreground">
+        Burst · {burst.frames.length} frames · kept {burst.frames.indexOf(burst.best) + 1}
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {burst.frames.map((frame, i) => (
+          <div
+            key={i}
+            className={cn(
+              "rounded-lg overflow-hidden border",
+              frame === burst.best ? "border-primary" : "border-border/50"
+            )}
+          >
+            <img src={frame.dataUrl} alt={`Frame ${i + 1}`} className="w-full aspect-[4/3] object-cover" />
+            <div className="p-1 font-mono text-[9px] leading-tight text-muted-foreground">
+              <div className="text-foreground">#{i + 1} +{frame.offsetMs}ms · {pct(frame.scores.total)}</div>
+              <div>sharp {pct(frame.scores.sharpness)} ({frame.quality?.sharpness ?? "—"})</div>
+              <div>expo {pct(frame.scores.exposure)} ({frame.quality?.brightness ?? "—"})</div>
+              <div>
+                align {pct(frame.scores.alignment)}
+                {frame.alignment?.pose && ` · eyes ${frame.alignment.pose.eyeOpenness.toFixed(2)}`}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
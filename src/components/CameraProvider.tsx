@@ -0,0 +1,252 @@
+import { useState, useRef, useCallback, useEffect, useMemo, ReactNode } from "react";
+import { CameraContext, CameraPermission, CameraState, CameraStatus } from "@/hooks/useCamera";
+import {
+  CameraSettings,
+  FacingMode,
+  applyTorch,
+  buildVideoConstraints,
+  getCameraSettings,
+  setCameraSettings,
+  supportsTorch,
+} from "@/lib/cameraSettings";
+
+interface CameraProviderProps {
+  children: ReactNode;
+}
+
+function showStream(video: HTMLVideoElement, stream: MediaStream): void {
+  if (video.srcObject !== stream) {
+    video.srcObject = stream;
+  }
+  video.play().catch(() => {
+    // Play interrupted by a newer load; the next attach retries
+  });
+}
+
+function describeStartError(error: unknown): { permission: CameraPermission | null; message: string } {
+  const name = error instanceof DOMException ? error.name : "";
+  if (name === "NotAllowedError" || name === "SecurityError") {
+    return { permission: 'denied', message: "Camera access was denied" };
+  }
+  if (name === "NotFoundError" || name === "OverconstrainedError") {
+    return { permission: 'unavailable', message: "No camera was found" };
+  }
+  if (name === "NotReadableError") {
+    return { permission: null, message: "The camera is in use by another app" };
+  }
+  return { permission: null, message: "Could not start the camera" };
+}
+
+export const CameraProvider = ({ children }: CameraProviderProps) => {
+  const streamRef = useRef<MediaStream | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Bumped on every start/stop so a slow getUserMedia can't install a stale stream
+  const requestIdRef = useRef(0);
+  const resumeOnVisibleRef = useRef(false);
+
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [status, setStatus] = useState<CameraStatus>('idle');
+  const statusRef = useRef<CameraStatus>('idle');
+  const [permission, setPermission] = useState<CameraPermission>('unknown');
+  const [error, setError] = useState<string | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>("user");
+  const [settings, setSettings] = useState<CameraSettings>(getCameraSettings);
+  const [torchSupported, setTorchSupported] = useState(false);
+
+  const updateStatus = useCallback((next: CameraStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const releaseStream = useCallback(() => {
+    const current = streamRef.current;
+    if (current) {
+      current.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
+    }
+    streamRef.current = null;
+    setStream(null);
+    setTorchSupported(false);
+  }, []);
+
+  // Only the camera and resolution need a new stream; the torch is applied to the running track
+  const { deviceIds, resolution } = settings;
+
+  const start = useCallback(async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setPermission('unavailable');
+      setError("This device has no camera available");
+      updateStatus('error');
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    // iOS allows one camera stream at a time, so release the old one first
+    releaseStream();
+    setError(null);
+    updateStatus('starting');
+
+    try {
+      let mediaStream: MediaStream;
+      try {
+        mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: buildVideoConstraints(deviceIds[facingMode], facingMode, resolution),
+          audio: false,
+        });
+      } catch (err) {
+        // A saved camera may have been unplugged; fall back to picking by facing
+        if (!deviceIds[facingMode] || describeStartError(err).permission === 'denied') {
+          throw err;
+        }
+        mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: buildVideoConstraints(undefined, facingMode, resolution),
+          audio: false,
+        });
+      }
+
+      if (requestId !== requestIdRef.current) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      const [track] = mediaStream.getVideoTracks();
+      if (track) {
+        // Unplugged, revoked, or taken by another app
+        track.onended = () => {
+          if (streamRef.current !== mediaStream) return;
+          releaseStream();
+          setError("The camera stopped");
+          updateStatus('error');
+        };
+      }
+
+      streamRef.current = mediaStream;
+      setStream(mediaStream);
+      setTorchSupported(supportsTorch(track));
+      setPermission('granted');
+      updateStatus('active');
+      if (videoRef.current) {
+        showStream(videoRef.current, mediaStream);
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      const failure = describeStartError(err);
+      if (failure.permission) setPermission(failure.permission);
+      setError(failure.message);
+      updateStatus('error');
+    }
+  }, [facingMode, deviceIds, resolution, releaseStream, updateStatus]);
+
+  const stop = useCallback(() => {
+    requestIdRef.current++;
+    resumeOnVisibleRef.current = false;
+    releaseStream();
+    setError(null);
+    updateStatus('idle');
+  }, [releaseStream, updateStatus]);
+
+  const switchCamera = useCallback(() => {
+    setFacingMode(prev => prev === "user" ? "environment" : "user");
+  }, []);
+
+  const updateSettings = useCallback((next: CameraSettings, facing: FacingMode) => {
+    setSettings(next);
+    setCameraSettings(next);
+    setFacingMode(facing);
+  }, []);
+
+  const attach = useCallback((video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    if (video && streamRef.current) {
+      showStream(video, streamRef.current);
+    }
+  }, []);
+
+  // Restart a running camera when the facing, device or resolution changes
+  useEffect(() => {
+    if (statusRef.current === 'active' || statusRef.current === 'starting') {
+      start();
+    }
+  }, [start]);
+
+  // Release the camera while the page is hidden (tab switch, app in background)
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) {
+        if (statusRef.current === 'active' || statusRef.current === 'starting') {
+          requestIdRef.current++;
+          resumeOnVisibleRef.current = true;
+          releaseStream();
+          updateStatus('paused');
+        }
+      } else if (resumeOnVisibleRef.current) {
+        resumeOnVisibleRef.current = false;
+        start();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, [start, releaseStream, updateStatus]);
+
+  // Track the permission where the browser can report it
+  useEffect(() => {
+    let result: PermissionStatus | null = null;
+    let cancelled = false;
+
+    navigator.permissions?.query({ name: "camera" as PermissionName })
+      .then(permissionStatus => {
+        if (cancelled) return;
+        result = permissionStatus;
+        setPermission(permissionStatus.state);
+        permissionStatus.onchange = () => setPermission(permissionStatus.state);
+      })
+      .catch(() => {
+        // Camera permission can't be queried here (e.g. older Safari)
+      });
+
+    return () => {
+      cancelled = true;
+      if (result) result.onchange = null;
+    };
+  }, []);
+
+  // Torch follows the setting without restarting the stream
+  useEffect(() => {
+    if (!stream || !torchSupported) return;
+    applyTorch(stream.getVideoTracks()[0], settings.torch).catch(() => {
+      // Torch refused (e.g. camera busy) - leave it as it is
+    });
+  }, [stream, torchSupported, settings.torch]);
+
+  // Never leave the camera on after the app unmounts
+  useEffect(() => {
+    const requestIds = requestIdRef;
+    const streams = streamRef;
+    return () => {
+      requestIds.current++;
+      streams.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const value = useMemo<CameraState>(() => ({
+    stream,
+    streamRef,
+    status,
+    permission,
+    error,
+    facingMode,
+    settings,
+    torchSupported,
+    start,
+    stop,
+    switchCamera,
+    setFacingMode,
+    updateSettings,
+    attach,
+  }), [stream, status, permission, error, facingMode, settings, torchSupported, start, stop, switchCamera, updateSettings, attach]);
+
+  return <CameraContext.Provider value={value}>{children}</CameraContext.Provider>;
+};
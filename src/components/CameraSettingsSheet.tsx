@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  CameraSettings,
+  FacingMode,
+  RESOLUTION_PRESETS,
+  ResolutionPreset,
+  guessFacing,
+} from "@/lib/cameraSettings";
+
+interface CameraSettingsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CameraSettings;
+  facingMode: FacingMode;
+  torchSupported: boolean;
+  // `facingMode` is the side the newly chosen camera points to
+  onChange: (settings: CameraSettings, facingMode: FacingMode) => void;
+}
+
+const AUTO_DEVICE = "auto";
+
+export const CameraSettingsSheet = ({
+  open,
+  onOpenChange,
+  settings,
+  facingMode,
+  torchSupported,
+  onChange,
+}: CameraSettingsSheetProps) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // List cameras while the sheet is open; labels are only filled in once permission is granted
+  useEffect(() => {
+    if (!open || !navigator.mediaDevices?.enumerateDevices) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const all = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setDevices(all.filter(device => device.kind === "videoinput"));
+      } catch {
+        // Enumeration blocked - only the automatic choice is offered
+      }
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, [open]);
+
+  const handleDeviceChange = (value: string) => {
+    if (value === AUTO_DEVICE) {
+      const deviceIds = { ...settings.deviceIds };
+      delete deviceIds[facingMode];
+      onChange({ ...settings, deviceIds }, facingMode);
+      return;
+    }
+
+    const device = devices.find(d => d.deviceId === value);
+    // Remember the camera under the side it faces, so Switch Camera and angle hints still work
+    const facing = (device ? guessFacing(device) : null) ?? facingMode;
+    onChange({ ...settings, deviceIds: { ...settings.deviceIds, [facing]: value } }, facing);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl">
+        <SheetHeader>
+          <SheetTitle>Camera Settings</SheetTitle>
+          <SheetDescription>Saved on this device.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-4 max-w-md mx-auto">
+          {/* Camera */}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Camera</Label>
+            <Select value={settings.deviceIds[facingMode] ?? AUTO_DEVICE} onValueChange={handleDeviceChange}>
+              <SelectTrigger className="h-9 bg-secondary/50 border-border/50">
+                <SelectValue placeholder="Select camera" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DEVICE}>
+                  Automatic ({facingMode === "user" ? "front" : "back"})
+                </SelectItem>
+                {devices.filter(device => device.deviceId).map((device, i) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${i + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Resolution */}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Resolution</Label>
+            <Select
+              value={settings.resolution}
+              onValueChange={(v) => onChange({ ...settings, resolution: v as ResolutionPreset }, facingMode)}
+            >
+              <SelectTrigger className="h-9 bg-secondary/50 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map(preset => (
+                  <SelectItem key={preset} value={preset}>
+                    {RESOLUTION_PRESETS[preset].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Torch */}
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="camera-torch" className="text-xs text-muted-foreground cursor-pointer">
+              {torchSupported ? "Torch" : "Torch (not available on this camera)"}
+            </Label>
+            <Switch
+              id="camera-torch"
+              checked={settings.torch && torchSupported}
+              disabled={!torchSupported}
+              onCheckedChange={(checked) => onChange({ ...settings, torch: checked }, facingMode)}
+            />
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,41 @@
+import { cn } from "@/lib/utils";
+
+interface MetricRowProps {
+  label: string;
+  value: number;
+  // Model's confidence in this value, 0-1
+  confidence?: number;
+  delay?: number;
+}
+
+export const MetricRow = ({ label, value, confidence, delay = 0 }: MetricRowProps) => {
+  return (
+    <div
+      className="opacity-0 animate-fade-up"
+      style={{ animationDelay: `${delay}ms`, animationFillMode: 'forwards' }}
+    >
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-sm text-muted-foreground">{label}</span>
+        {confidence !== undefined && (
+          <span className="text-[10px] font-mono text-muted-foreground" title="Model confidence">
+            {Math.round(confidence * 100)}% conf.
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <span className={cn(
+          "text-4xl font-semibold font-mono w-16",
+          confidence !== undefined && confidence < 0.4 ? "text-muted-foreground" : "text-foreground"
+        )}>
+          {value}
+        </span>
+        <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary rounded-full transition-all duration-1000 ease-out"
+            style={{ width: `${value}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,78 +1,40 @@
-import { useRef, useCallback, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Camera, RotateCcw, Check } from "lucide-react";
+import { BurstDebugPanel } from "@/components/BurstDebugPanel";
+import { PhotoQuality, QUALITY_ISSUE_MESSAGES } from "@/lib/photoQuality";
+import { BurstResult } from "@/lib/burstCapture";
+import { Camera, RotateCcw, Check, AlertTriangle } from "lucide-react";
 
 interface PhotoCaptureProps {
-  videoRef: React.RefObject<HTMLVideoElement>;
-  facingMode: "user" | "environment";
   capturedPhoto: string | null;
-  onCapture: (dataUrl: string) => void;
+  // Quality of capturedPhoto, as reported with it
+  quality: PhotoQuality | null;
+  // Starts a burst (see useBurstCapture); the parent owns it so auto-capture can share it
+  onCapture: () => void;
   onRetake: () => void;
   onUse: () => void;
   hasCamera: boolean;
-  onScanStart?: () => void;
-  onScanEnd?: () => void;
+  isScanning: boolean;
+  // Last burst, shown in the debug panel when it produced capturedPhoto
+  burst?: BurstResult | null;
+  // Show the per-frame burst scores (QA)
+  showDebug?: boolean;
 }
 
 export const PhotoCapture = ({
-  videoRef,
-  facingMode,
   capturedPhoto,
+  quality,
   onCapture,
   onRetake,
   onUse,
   hasCamera,
-  onScanStart,
-  onScanEnd,
+  isScanning,
+  burst = null,
+  showDebug = false,
 }: PhotoCaptureProps) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isScanning, setIsScanning] = useState(false);
-
-  const performCapture = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current) return;
-
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    // Calculate dimensions (max 1024 width)
-    const maxWidth = 1024;
-    const scale = Math.min(1, maxWidth / video.videoWidth);
-    const width = video.videoWidth * scale;
-    const height = video.videoHeight * scale;
-
-    canvas.width = width;
-    canvas.height = height;
-
-    // Handle mirroring for front camera
-    if (facingMode === "user") {
-      ctx.translate(width, 0);
-      ctx.scale(-1, 1);
-    }
-
-    ctx.drawImage(video, 0, 0, width, height);
-
-    // Convert to JPEG with compression
-    const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
-    onCapture(dataUrl);
-  }, [videoRef, facingMode, onCapture]);
-
-  const capturePhoto = useCallback(() => {
-    setIsScanning(true);
-    onScanStart?.();
-
-    // Run scanning animation for 1.2 seconds before capturing
-    setTimeout(() => {
-      performCapture();
-      setIsScanning(false);
-      onScanEnd?.();
-    }, 1200);
-  }, [performCapture, onScanStart, onScanEnd]);
+  const hasIssues = !!quality && quality.issues.length > 0;
 
   return (
     <>
-      <canvas ref={canvasRef} className="hidden" />
       
       {capturedPhoto ? (
         <div className="space-y-3">
@@ -85,11 +47,31 @@ export const PhotoCapture = ({
             />
             <div className="absolute inset-0 bg-gradient-to-t from-background/60 to-transparent" />
           </div>
+
+          {/* Quality warnings */}
+          {hasIssues && (
+            <div className="glass-panel p-3 border border-destructive/30 space-y-1">
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <span className="text-sm font-medium">This photo may not analyze well</span>
+              </div>
+              <ul className="text-xs text-muted-foreground leading-relaxed list-disc pl-6">
+                {quality.issues.map(issue => (
+                  <li key={issue}>{QUALITY_ISSUE_MESSAGES[issue]}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           
-          {/* Action buttons */}
+          {/* Burst scores - only for the photo the burst produced */}
+          {showDebug && burst && burst.best.dataUrl === capturedPhoto && (
+            <BurstDebugPanel burst={burst} />
+          )}
+
+          {/* Action buttons - retake is the primary action when the check failed */}
           <div className="flex gap-2">
             <Button 
-              variant="glass" 
+              variant={hasIssues ? "scanner" : "glass"} 
               className="flex-1"
               onClick={onRetake}
             >
@@ -97,12 +79,12 @@ export const PhotoCapture = ({
               Retake
             </Button>
             <Button 
-              variant="scanner" 
+              variant={hasIssues ? "glass" : "scanner"} 
               className="flex-1"
               onClick={onUse}
             >
               <Check className="w-4 h-4" />
-              Use Photo
+              {hasIssues ? "Use Anyway" : "Use Photo"}
             </Button>
           </div>
         </div>
@@ -110,7 +92,7 @@ export const PhotoCapture = ({
         <Button
           variant="scanner"
           className="w-full"
-          onClick={capturePhoto}
+          onClick={onCapture}
           disabled={!hasCamera || isScanning}
         >
           {isScanning ? (
@@ -1,7 +1,8 @@
 import { cn } from "@/lib/utils";
-import { Check, Camera } from "lucide-react";
+import { AngleId, CAPTURE_PROTOCOL } from "@/lib/captureProtocol";
+import { Check, Camera, Users } from "lucide-react";
 
-export type PhotoType = "front" | "left" | "right";
+export type PhotoType = AngleId;
 
 interface PhotoStepperProps {
   currentStep: PhotoType;
@@ -9,25 +10,19 @@ interface PhotoStepperProps {
   onStepClick: (step: PhotoType) => void;
 }
 
-const steps: { id: PhotoType; label: string }[] = [
-  { id: "front", label: "Front Hairline" },
-  { id: "left", label: "Left Temple" },
-  { id: "right", label: "Right Temple" },
-];
-
 export const PhotoStepper = ({ currentStep, photos, onStepClick }: PhotoStepperProps) => {
   return (
     <div className="flex gap-2">
-      {steps.map((step) => {
+      {CAPTURE_PROTOCOL.map((step) => {
         const isActive = currentStep === step.id;
-        const isComplete = photos[step.id] !== null;
+        const isComplete = !!photos[step.id];
 
         return (
           <button
             key={step.id}
             onClick={() => onStepClick(step.id)}
             className={cn(
-              "relative flex-1 flex flex-col items-center gap-1.5 p-2 rounded-xl transition-all",
+              "relative flex-1 min-w-0 flex flex-col items-center gap-1.5 p-2 rounded-xl transition-all",
               "border",
               isActive ? "bg-primary/10 border-primary/40" : "bg-secondary border-border hover:border-border/80"
             )}
@@ -43,6 +38,8 @@ export const PhotoStepper = ({ currentStep, photos, onStepClick }: PhotoStepperP
                   alt={step.label}
                   className="w-full h-full object-cover"
                 />
+              ) : step.needsHelper ? (
+                <Users className="w-4 h-4 text-muted-foreground" />
               ) : (
                 <Camera className="w-4 h-4 text-muted-foreground" />
               )}
@@ -55,6 +52,9 @@ export const PhotoStepper = ({ currentStep, photos, onStepClick }: PhotoStepperP
             )}>
               {step.label}
             </span>
+            {!step.required && (
+              <span className="text-[9px] leading-none text-muted-foreground/70">Optional</span>
+            )}
 
             {/* Status indicator */}
             {isComplete && (
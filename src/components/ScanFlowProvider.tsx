@@ -0,0 +1,91 @@
+import { useState, useCallback, useMemo, ReactNode } from "react";
+import { ScanFlowContext, ScanFlowState } from "@/hooks/useScanFlow";
+import { CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { QuestionnaireData } from "@/components/Questionnaire";
+import { StoredScan } from "@/lib/scanHistory";
+import { PhotoQualityMap } from "@/lib/photoQuality";
+import { FramingMatchMap } from "@/lib/framingMatch";
+
+const FLOW_STORAGE_KEY = 'hairline_scan_flow';
+
+interface PersistedFlow {
+  photos: CapturedPhotos;
+  questionnaire: QuestionnaireData;
+  quality?: PhotoQualityMap;
+  framing?: FramingMatchMap;
+}
+
+// Photos survive a page refresh for the rest of the browser session
+function loadPersistedFlow(): PersistedFlow | null {
+  try {
+    const raw = sessionStorage.getItem(FLOW_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function persistFlow(flow: PersistedFlow | null): void {
+  try {
+    if (flow) {
+      sessionStorage.setItem(FLOW_STORAGE_KEY, JSON.stringify(flow));
+    } else {
+      sessionStorage.removeItem(FLOW_STORAGE_KEY);
+    }
+  } catch {
+    // Ignore quota errors - the flow still works in memory
+  }
+}
+
+interface ScanFlowProviderProps {
+  children: ReactNode;
+}
+
+export const ScanFlowProvider = ({ children }: ScanFlowProviderProps) => {
+  const [persisted] = useState(loadPersistedFlow);
+  const [photos, setPhotos] = useState<CapturedPhotos | null>(persisted?.photos ?? null);
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireData | null>(persisted?.questionnaire ?? null);
+  const [quality, setQuality] = useState<PhotoQualityMap | null>(persisted?.quality ?? null);
+  const [framing, setFraming] = useState<FramingMatchMap | null>(persisted?.framing ?? null);
+  const [lastScan, setLastScan] = useState<StoredScan | null>(null);
+
+  const setCapture = useCallback((
+    nextPhotos: CapturedPhotos,
+    nextQuestionnaire: QuestionnaireData,
+    nextQuality: PhotoQualityMap,
+    nextFraming: FramingMatchMap
+  ) => {
+    setPhotos(nextPhotos);
+    setQuestionnaire(nextQuestionnaire);
+    setQuality(nextQuality);
+    setFraming(nextFraming);
+    persistFlow({ photos: nextPhotos, questionnaire: nextQuestionnaire, quality: nextQuality, framing: nextFraming });
+  }, []);
+
+  const reset = useCallback(() => {
+    setPhotos(null);
+    setQuestionnaire(null);
+    setQuality(null);
+    setFraming(null);
+    persistFlow(null);
+  }, []);
+
+  const clear = useCallback(() => {
+    reset();
+    setLastScan(null);
+  }, [reset]);
+
+  const value = useMemo<ScanFlowState>(() => ({
+    photos,
+    questionnaire,
+    quality,
+    framing,
+    lastScan,
+    setCapture,
+    setLastScan,
+    reset,
+    clear,
+  }), [photos, questionnaire, quality, framing, lastScan, setCapture, reset, clear]);
+
+  return <ScanFlowContext.Provider value={value}>{children}</ScanFlowContext.Provider>;
+};
@@ -1,65 +1,24 @@
-import { useRef, useState, useEffect, useCallback, MutableRefObject } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { ScannerOverlay } from "@/components/ScannerOverlay";
+import { useCamera, useCameraVideo } from "@/hooks/useCamera";
 import { Camera, SwitchCamera, X } from "lucide-react";
 
 interface CameraScreenProps {
   onStartScan: () => void;
   onCancel: () => void;
-  streamRef: MutableRefObject<MediaStream | null>;
 }
 
-export const CameraScreen = ({ onStartScan, onCancel, streamRef }: CameraScreenProps) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [hasCamera, setHasCamera] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [facingMode, setFacingMode] = useState<"user" | "environment">("user");
+export const CameraScreen = ({ onStartScan, onCancel }: CameraScreenProps) => {
+  const { status, permission, error, facingMode, start: startCamera, stop: stopCamera, switchCamera } = useCamera();
+  const { bindVideo } = useCameraVideo();
   const [countdown, setCountdown] = useState<number | null>(null);
+  const hasCamera = status === 'active';
 
-  const startCamera = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      // Stop any existing stream
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode, width: { ideal: 1280 }, height: { ideal: 720 } },
-        audio: false,
-      });
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
-        await videoRef.current.play();
-      }
-
-      streamRef.current = mediaStream;
-      setHasCamera(true);
-      
-      // Start countdown after camera is ready
-      setCountdown(2);
-    } catch {
-      // Camera access denied or not available
-      setHasCamera(false);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [facingMode, streamRef]);
-
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    setHasCamera(false);
-    setCountdown(null);
-  }, [streamRef]);
-
-  const switchCamera = () => {
-    setCountdown(null); // Reset countdown when switching
-    setFacingMode(prev => prev === "user" ? "environment" : "user");
-  };
+  // Count down whenever a stream comes up, including after a camera switch
+  useEffect(() => {
+    setCountdown(hasCamera ? 2 : null);
+  }, [hasCamera, facingMode]);
 
   // Handle countdown
   useEffect(() => {
@@ -77,26 +36,17 @@ export const CameraScreen = ({ onStartScan, onCancel, streamRef }: CameraScreenP
     return () => clearTimeout(timer);
   }, [countdown, onStartScan]);
 
-  // Restart camera when facing mode changes
-  useEffect(() => {
-    if (hasCamera) {
-      startCamera();
-    }
-  }, [facingMode, hasCamera, startCamera]);
-
-  // Cleanup on unmount (but don't stop stream - it's managed by parent)
+  // Release the camera when leaving the screen
   useEffect(() => {
-    return () => {
-      // Don't stop the stream here - parent manages it
-    };
-  }, []);
+    return () => stopCamera();
+  }, [stopCamera]);
 
   return (
     <div className="min-h-screen flex flex-col p-4 md:p-6">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold text-foreground">Hairline Scanner</h2>
-        <Button variant="ghost" size="icon" onClick={() => { stopCamera(); onCancel(); }}>
+        <Button variant="ghost" size="icon" onClick={onCancel}>
           <X className="w-5 h-5" />
         </Button>
       </div>
@@ -107,7 +57,7 @@ export const CameraScreen = ({ onStartScan, onCancel, streamRef }: CameraScreenP
           {hasCamera ? (
             <>
               <video
-                ref={videoRef}
+                ref={bindVideo}
                 autoPlay
                 playsInline
                 muted
@@ -137,14 +87,20 @@ export const CameraScreen = ({ onStartScan, onCancel, streamRef }: CameraScreenP
           ) : (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary/50">
               <Camera className="w-16 h-16 text-muted-foreground mb-4" />
-              <p className="text-muted-foreground text-sm mb-4">Camera not enabled</p>
-              <Button 
-                variant="scanner" 
-                onClick={startCamera}
-                disabled={isLoading}
-              >
-                {isLoading ? "Enabling..." : "Enable Camera"}
-              </Button>
+              <p className="text-muted-foreground text-sm text-center px-6 mb-4">
+                {permission === 'denied'
+                  ? "Camera access is blocked. Allow it in your browser or device settings."
+                  : status === 'paused' ? "Camera paused" : error ?? "Camera not enabled"}
+              </p>
+              {permission !== 'unavailable' && (
+                <Button
+                  variant="scanner"
+                  onClick={startCamera}
+                  disabled={status === 'starting'}
+                >
+                  {status === 'starting' ? "Enabling..." : "Enable Camera"}
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -165,7 +121,7 @@ export const CameraScreen = ({ onStartScan, onCancel, streamRef }: CameraScreenP
         <Button 
           variant="ghost" 
           className="w-full text-muted-foreground"
-          onClick={() => { stopCamera(); onCancel(); }}
+          onClick={onCancel}
         >
           Cancel
         </Button>
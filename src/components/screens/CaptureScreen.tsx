@@ -1,27 +1,58 @@
-import { useRef, useState, useEffect, useCallback, MutableRefObject } from "react";
+import { useRef, useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { ScannerOverlay } from "@/components/ScannerOverlay";
 import { FaceScanOverlay } from "@/components/FaceScanOverlay";
+import { AlignmentGuide } from "@/components/AlignmentGuide";
+import { CameraSettingsSheet } from "@/components/CameraSettingsSheet";
 import { PhotoCapture } from "@/components/PhotoCapture";
 import { PhotoStepper, PhotoType } from "@/components/PhotoStepper";
 import { Questionnaire, QuestionnaireData } from "@/components/Questionnaire";
-import { SwitchCamera, X, Sparkles } from "lucide-react";
-
-export interface CapturedPhotos {
-  front: string | null;
-  left: string | null;
-  right: string | null;
-}
+import { PhotoQuality, PhotoQualityMap } from "@/lib/photoQuality";
+import { getBlurFace, setBlurFace } from "@/lib/privacySettings";
+import { useFaceAlignment } from "@/hooks/useFaceAlignment";
+import { useAutoCapture } from "@/hooks/useAutoCapture";
+import { useScanHistory } from "@/hooks/useScanHistory";
+import { useCamera, useCameraVideo } from "@/hooks/useCamera";
+import { useBurstCapture } from "@/hooks/useBurstCapture";
+import { BurstFrame } from "@/lib/burstCapture";
+import { supportsPoseGuidance } from "@/lib/faceAlignment";
+import { CAPTURE_PROTOCOL, emptyPhotos, getCaptureAngle, missingRequiredAngles } from "@/lib/captureProtocol";
+import {
+  getAutoCapture,
+  getCaptureDebug,
+  getGhostOverlay,
+  setAutoCapture,
+  setCaptureDebug,
+  setGhostOverlay,
+} from "@/lib/captureSettings";
+import { FramingMatch, FramingMatchMap, compareFraming, findReferencePhotos } from "@/lib/framingMatch";
+import { IMPORT_ACCEPT, ImportedPhoto, importPhoto } from "@/lib/photoImport";
+import { captureBackend } from "@/lib/captureBackend";
+import { toast } from "sonner";
+import { Camera, SwitchCamera, X, Sparkles, ImageUp, Settings2, Trash2 } from "lucide-react";
+
+// One entry per angle in the capture protocol
+export type CapturedPhotos = Record<PhotoType, string | null>;
 
 interface CaptureScreenProps {
-  onAnalyze: (photos: CapturedPhotos, questionnaire: QuestionnaireData) => void;
+  onAnalyze: (
+    photos: CapturedPhotos,
+    questionnaire: QuestionnaireData,
+    quality: PhotoQualityMap,
+    framing: FramingMatchMap
+  ) => void;
   onCancel: () => void;
-  streamRef: MutableRefObject<MediaStream | null>;
+  // Restores an in-progress capture, e.g. after navigating back from /scan
+  initialPhotos?: CapturedPhotos | null;
+  initialQuestionnaire?: QuestionnaireData | null;
+  initialQuality?: PhotoQualityMap | null;
+  initialFraming?: FramingMatchMap | null;
 }
 
-const initialQuestionnaire: QuestionnaireData = {
+const emptyQuestionnaire: QuestionnaireData = {
   ageRange: "",
   timeframe: "",
   familyHistory: "",
@@ -29,111 +60,238 @@ const initialQuestionnaire: QuestionnaireData = {
   scalpIssues: "",
 };
 
-export const CaptureScreen = ({ onAnalyze, onCancel, streamRef }: CaptureScreenProps) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [hasCamera, setHasCamera] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [facingMode, setFacingMode] = useState<"user" | "environment">("user");
+export const CaptureScreen = ({
+  onAnalyze,
+  onCancel,
+  initialPhotos,
+  initialQuestionnaire,
+  initialQuality,
+  initialFraming,
+}: CaptureScreenProps) => {
+  const {
+    status: cameraStatus,
+    permission: cameraPermission,
+    error: cameraError,
+    facingMode,
+    settings: cameraSettings,
+    torchSupported,
+    start: startCamera,
+    stop: stopCamera,
+    switchCamera,
+    setFacingMode,
+    updateSettings: handleCameraSettingsChange,
+  } = useCamera();
+  const { videoRef, bindVideo } = useCameraVideo();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [consent, setConsent] = useState(false);
+  const [blurFace, setBlurFaceState] = useState(getBlurFace);
+  const [autoCapture, setAutoCaptureState] = useState(getAutoCapture);
+  const [captureDebug, setCaptureDebugState] = useState(getCaptureDebug);
+  const [ghostOverlay, setGhostOverlayState] = useState(getGhostOverlay);
+  const titleTapsRef = useRef<number[]>([]);
   
-  const [currentPhotoStep, setCurrentPhotoStep] = useState<PhotoType>("front");
-  const [photos, setPhotos] = useState<CapturedPhotos>({ front: null, left: null, right: null });
+  const [currentPhotoStep, setCurrentPhotoStep] = useState<PhotoType>(CAPTURE_PROTOCOL[0].id);
+  const [photos, setPhotos] = useState<CapturedPhotos>({ ...emptyPhotos(), ...initialPhotos });
   const [tempCapture, setTempCapture] = useState<string | null>(null);
-  const [isScanning, setIsScanning] = useState(false);
-
-  const [questionnaire, setQuestionnaire] = useState<QuestionnaireData>(initialQuestionnaire);
+  const [photoQuality, setPhotoQuality] = useState<PhotoQualityMap>(initialQuality ?? {});
+  const [tempQuality, setTempQuality] = useState<PhotoQuality | null>(null);
+  const [framing, setFraming] = useState<FramingMatchMap>(initialFraming ?? {});
+  const [tempFraming, setTempFraming] = useState<FramingMatch | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireData>(initialQuestionnaire ?? emptyQuestionnaire);
+
+  const hasCamera = cameraStatus === 'active';
+  // Keep the preview up while a granted camera restarts (switch, settings change) instead of
+  // flashing the placeholder
+  const showPreview = hasCamera || (cameraStatus === 'starting' && cameraPermission === 'granted');
+
+  const currentAngle = getCaptureAngle(currentPhotoStep);
+  const hasPoseGuidance = supportsPoseGuidance(currentAngle.guide);
+
+  // The user's last stored photo of each angle, for matching framing across sessions
+  const { scans } = useScanHistory();
+  const references = useMemo(() => findReferencePhotos(scans), [scans]);
+  const reference = references[currentPhotoStep] ?? null;
+
+  // Capture button and auto-capture both take the best frame of a burst
+  const handleBurstCaptured = useCallback((frame: BurstFrame) => {
+    setTempCapture(frame.dataUrl);
+    setTempQuality(frame.quality);
+  }, []);
+  const { isScanning, burst, startBurst } = useBurstCapture(
+    videoRef,
+    hasPoseGuidance ? currentAngle.guide : null,
+    handleBurstCaptured
+  );
 
-  const hasAtLeastOnePhoto = photos.front !== null || photos.left !== null || photos.right !== null;
-  const canAnalyze = consent && hasAtLeastOnePhoto;
+  // Live pose guidance while the preview is showing
+  const { alignment, isModelLoading, modelError } = useFaceAlignment(
+    videoRef,
+    currentAngle.guide,
+    hasPoseGuidance && hasCamera && !tempCapture && !isScanning
+  );
 
-  const startCamera = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
+  // Take the photo without a button press once the pose and frame hold steady
+  const { countdown } = useAutoCapture(
+    videoRef,
+    alignment,
+    autoCapture && hasPoseGuidance && hasCamera && !tempCapture && !isScanning,
+    startBurst
+  );
 
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode, width: { ideal: 1280 }, height: { ideal: 720 } },
-        audio: false,
+  // Score how closely the pending photo repeats the reference framing
+  useEffect(() => {
+    setTempFraming(null);
+    if (!tempCapture || !reference) return;
+
+    let cancelled = false;
+    compareFraming(tempCapture, reference, currentAngle.guide)
+      .then(match => {
+        if (!cancelled) setTempFraming(match);
+      })
+      .catch(() => {
+        // Reference unreadable - keep the capture without a framing score
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [tempCapture, reference, currentAngle.guide]);
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
-        await videoRef.current.play();
-      }
+  const missingRequired = missingRequiredAngles(photos);
+  const canAnalyze = consent && missingRequired.length === 0;
 
-      streamRef.current = mediaStream;
-      setHasCamera(true);
-    } catch {
-      // Camera access denied or not available
-      setHasCamera(false);
+  // Each angle starts on the camera its protocol entry suggests
+  const goToStep = (step: PhotoType) => {
+    setCurrentPhotoStep(step);
+    setFacingMode(getCaptureAngle(step).facing);
+  };
+
+  const handleCapture = (dataUrl: string, quality: PhotoQuality | null) => {
+    setTempCapture(dataUrl);
+    setTempQuality(quality);
+  };
+
+  // Imported and native photos go through the same preview and quality gate as live captures
+  const importWith = async (load: () => Promise<ImportedPhoto | null>, fallbackError: string) => {
+    setIsImporting(true);
+    try {
+      const imported = await load();
+      if (imported) handleCapture(imported.dataUrl, imported.quality);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallbackError);
     } finally {
-      setIsLoading(false);
+      setIsImporting(false);
     }
-  }, [facingMode, streamRef]);
+  };
 
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  // Opens the photo library on native, otherwise the file picker (which on iOS Safari offers the library too)
+  const handleImportClick = () => {
+    if (captureBackend.pickPhoto) {
+      importWith(captureBackend.pickPhoto, "Failed to import photo");
+    } else {
+      fileInputRef.current?.click();
     }
-    setHasCamera(false);
-  }, [streamRef]);
+  };
 
-  const switchCamera = () => {
-    setFacingMode(prev => prev === "user" ? "environment" : "user");
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = "";
+    if (!file) return;
+    importWith(() => importPhoto(file), "Failed to import photo");
   };
 
-  const handleCapture = (dataUrl: string) => {
-    setTempCapture(dataUrl);
+  const handleNativeCapture = () => {
+    if (!captureBackend.takePhoto) return;
+    importWith(() => captureBackend.takePhoto(currentAngle), "Failed to open the camera");
   };
 
-  const handleRetake = async () => {
+  const handleRetake = () => {
     setTempCapture(null);
-    // Re-attach stream to video element
-    setTimeout(async () => {
-      if (videoRef.current && streamRef.current) {
-        videoRef.current.srcObject = streamRef.current;
-        try {
-          await videoRef.current.play();
-        } catch {
-          // Video play failed - may be interrupted
-        }
-      }
-    }, 50);
+    setTempQuality(null);
   };
 
   const handleUsePhoto = async () => {
     if (tempCapture) {
       setPhotos(prev => ({ ...prev, [currentPhotoStep]: tempCapture }));
+      setPhotoQuality(prev => {
+        const next = { ...prev };
+        if (tempQuality) {
+          next[currentPhotoStep] = tempQuality;
+        } else {
+          delete next[currentPhotoStep];
+        }
+        return next;
+      });
+      setFraming(prev => {
+        const next = { ...prev };
+        if (tempFraming) {
+          next[currentPhotoStep] = tempFraming;
+        } else {
+          delete next[currentPhotoStep];
+        }
+        return next;
+      });
       setTempCapture(null);
+      setTempQuality(null);
 
       // Auto-advance to next step if available
-      const steps: PhotoType[] = ["front", "left", "right"];
-      const currentIndex = steps.indexOf(currentPhotoStep);
-      const nextStep = steps.find((s, i) => i > currentIndex && photos[s] === null);
+      const currentIndex = CAPTURE_PROTOCOL.findIndex(angle => angle.id === currentPhotoStep);
+      const nextStep = CAPTURE_PROTOCOL.find((angle, i) => i > currentIndex && !photos[angle.id]);
       if (nextStep) {
-        setCurrentPhotoStep(nextStep);
+        goToStep(nextStep.id);
       }
+    }
+  };
 
-      // Re-attach stream to video element after clearing tempCapture
-      setTimeout(async () => {
-        if (videoRef.current && streamRef.current) {
-          videoRef.current.srcObject = streamRef.current;
-          try {
-            await videoRef.current.play();
-          } catch {
-            // Video play failed - may be interrupted
-          }
-        }
-      }, 50);
+  // Optional angles can be dropped again, e.g. a temple shot the face model can't find a face in
+  const handleRemovePhoto = () => {
+    if (currentAngle.required) return;
+    const without = <T,>(prev: Partial<Record<PhotoType, T>>) => {
+      const next = { ...prev };
+      delete next[currentPhotoStep];
+      return next;
+    };
+    setPhotos(prev => ({ ...prev, [currentPhotoStep]: null }));
+    setPhotoQuality(without);
+    setFraming(without);
+  };
+
+  const handleAutoCaptureChange = (checked: boolean) => {
+    setAutoCaptureState(checked);
+    setAutoCapture(checked);
+  };
+
+  // QA: five quick taps on the title toggle the burst debug view
+  const handleTitleTap = () => {
+    const now = Date.now();
+    const taps = [...titleTapsRef.current.filter(t => now - t < 2000), now];
+    titleTapsRef.current = taps;
+    if (taps.length >= 5) {
+      titleTapsRef.current = [];
+      const next = !captureDebug;
+      setCaptureDebugState(next);
+      setCaptureDebug(next);
+      toast(next ? "Capture debug view on" : "Capture debug view off");
     }
   };
 
+  const handleGhostOverlayChange = (checked: boolean) => {
+    setGhostOverlayState(checked);
+    setGhostOverlay(checked);
+  };
+
+  const handleBlurFaceChange = (checked: boolean) => {
+    setBlurFaceState(checked);
+    setBlurFace(checked);
+  };
+
   const handleStepClick = (step: PhotoType) => {
-    setCurrentPhotoStep(step);
+    goToStep(step);
     setTempCapture(null);
+    setTempQuality(null);
   };
 
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -141,36 +299,32 @@ export const CaptureScreen = ({ onAnalyze, onCancel, streamRef }: CaptureScreenP
   const handleAnalyze = () => {
     if (isSubmitting || !canAnalyze) return;
     setIsSubmitting(true);
-    stopCamera();
-    onAnalyze(photos, questionnaire);
+    onAnalyze(photos, questionnaire, photoQuality, framing);
   };
 
-  // Restart camera when facing mode changes
-  useEffect(() => {
-    if (hasCamera) {
-      startCamera();
-    }
-  }, [facingMode, hasCamera, startCamera]);
-
-  // Cleanup on unmount
+  // Open on the first angle's camera, and release the camera when leaving the screen
   useEffect(() => {
-    return () => {
-      // Don't stop stream here - parent manages it
-    };
-  }, []);
-
-  const stepLabels: Record<PhotoType, string> = {
-    front: "Front View",
-    left: "Left Side",
-    right: "Right Side"
-  };
+    setFacingMode(CAPTURE_PROTOCOL[0].facing);
+    return () => stopCamera();
+  }, [setFacingMode, stopCamera]);
+
+  const cameraMessage =
+    cameraPermission === 'denied'
+      ? "Camera access is blocked. Allow it in your browser or device settings, or upload a photo."
+      : cameraPermission === 'unavailable'
+        ? "No camera available. You can upload a photo instead."
+        : cameraStatus === 'paused'
+          ? "Camera paused"
+          : cameraError ?? "Camera not enabled";
 
   return (
     <div className="min-h-screen flex flex-col p-4 md:p-6">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-lg font-semibold text-foreground">Capture Photos</h2>
-        <Button variant="ghost" size="icon" onClick={() => { stopCamera(); onCancel(); }}>
+        <h2 className="text-lg font-semibold text-foreground select-none" onClick={handleTitleTap}>
+          Capture Photos
+        </h2>
+        <Button variant="ghost" size="icon" onClick={onCancel}>
           <X className="w-5 h-5" />
         </Button>
       </div>
@@ -187,85 +341,251 @@ export const CaptureScreen = ({ onAnalyze, onCancel, streamRef }: CaptureScreenP
       {/* Camera/Capture Area */}
       <div className="flex-1 flex flex-col">
         <div className="relative w-full max-w-md mx-auto aspect-[3/4] rounded-3xl overflow-hidden glass-panel mb-4">
-          {hasCamera && !tempCapture ? (
+          {showPreview && !tempCapture ? (
             <>
               <video
-                ref={videoRef}
+                ref={bindVideo}
                 autoPlay
                 playsInline
                 muted
                 className="absolute inset-0 w-full h-full object-cover"
                 style={{ transform: facingMode === "user" ? "scaleX(-1)" : "none" }}
               />
+              {/* Last session's photo, to match head position, distance and lighting. Stored
+                  photos are unmirrored, so it is flipped along with the front camera preview. */}
+              {ghostOverlay && reference && !isScanning && (
+                <img
+                  src={reference.dataUrl}
+                  alt=""
+                  className="absolute inset-0 w-full h-full object-cover opacity-30 pointer-events-none"
+                  style={{ transform: facingMode === "user" ? "scaleX(-1)" : "none" }}
+                />
+              )}
               <ScannerOverlay isScanning={false} />
               <FaceScanOverlay isScanning={isScanning} />
+              {!isScanning && !(hasPoseGuidance && modelError) && (
+                <AlignmentGuide
+                  guide={currentAngle.guide}
+                  alignment={alignment}
+                  instruction={currentAngle.instruction}
+                  isModelLoading={isModelLoading}
+                />
+              )}
+
+              {/* Hold-still countdown */}
+              {countdown !== null && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
+                  <span className="text-6xl font-bold text-primary drop-shadow-[0_0_12px_hsl(var(--primary)/0.6)]">
+                    {countdown}
+                  </span>
+                </div>
+              )}
 
               {/* Guide label */}
               {!isScanning && (
                 <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10">
                   <div className="px-4 py-2 rounded-full bg-background/80 backdrop-blur-sm border border-border">
                     <p className="text-sm text-foreground font-medium">
-                      {stepLabels[currentPhotoStep]}
+                      {currentAngle.label}
                     </p>
                   </div>
                 </div>
               )}
             </>
           ) : tempCapture ? (
-            <img 
-              src={tempCapture} 
-              alt="Preview"
-              className="absolute inset-0 w-full h-full object-cover"
-            />
+            <>
+              <img 
+                src={tempCapture} 
+                alt="Preview"
+                className="absolute inset-0 w-full h-full object-cover"
+              />
+
+              {/* Framing match against the last session */}
+              {tempFraming && (
+                <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10">
+                  <div className="px-4 py-2 rounded-full bg-background/80 backdrop-blur-sm border border-border">
+                    <p className="text-sm text-foreground font-medium">
+                      Framing match {Math.round(tempFraming.score * 100)}%
+                    </p>
+                  </div>
+                </div>
+              )}
+            </>
+          ) : captureBackend.takePhoto ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary/50">
+              <Camera className="w-16 h-16 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground text-sm text-center px-6 mb-4">{currentAngle.instruction}</p>
+              <Button
+                variant="scanner"
+                onClick={handleNativeCapture}
+                disabled={isImporting}
+              >
+                {isImporting ? "Opening..." : `Take ${currentAngle.label} Photo`}
+              </Button>
+              <Button
+                variant="ghost"
+                className="mt-2 text-muted-foreground"
+                onClick={handleImportClick}
+                disabled={isImporting}
+              >
+                <ImageUp className="w-4 h-4" />
+                Choose from Library
+              </Button>
+            </div>
           ) : (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary/50">
               <SwitchCamera className="w-16 h-16 text-muted-foreground mb-4" />
-              <p className="text-muted-foreground text-sm mb-4">Camera not enabled</p>
-              <Button 
-                variant="scanner" 
-                onClick={startCamera}
-                disabled={isLoading}
+              <p className="text-muted-foreground text-sm text-center px-6 mb-4">{cameraMessage}</p>
+              {cameraPermission !== 'unavailable' && (
+                <Button
+                  variant="scanner"
+                  onClick={startCamera}
+                  disabled={cameraStatus === 'starting'}
+                >
+                  {cameraStatus === 'starting'
+                    ? "Enabling..."
+                    : cameraStatus === 'error' ? "Try Again" : "Enable Camera"}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                className="mt-2 text-muted-foreground"
+                onClick={handleImportClick}
+                disabled={isImporting}
               >
-                {isLoading ? "Enabling..." : "Enable Camera"}
+                <ImageUp className="w-4 h-4" />
+                {isImporting ? "Opening..." : `Upload ${currentAngle.label}`}
               </Button>
             </div>
           )}
         </div>
 
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+
         {/* Capture Controls */}
-        {hasCamera && (
+        {(showPreview || tempCapture) && (
           <div className="max-w-md mx-auto w-full space-y-3 mb-4">
             <PhotoCapture
-              videoRef={videoRef}
-              facingMode={facingMode}
               capturedPhoto={tempCapture}
-              onCapture={handleCapture}
+              quality={tempQuality}
+              onCapture={startBurst}
               onRetake={handleRetake}
               onUse={handleUsePhoto}
               hasCamera={hasCamera}
-              onScanStart={() => setIsScanning(true)}
-              onScanEnd={() => setIsScanning(false)}
+              isScanning={isScanning}
+              burst={burst}
+              showDebug={captureDebug}
             />
             
             {!tempCapture && (
-              <Button 
-                variant="glass" 
-                className="w-full"
-                onClick={switchCamera}
-              >
-                <SwitchCamera className="w-4 h-4" />
-                Switch Camera
-              </Button>
+              <div className="flex gap-2">
+                <Button 
+                  variant="glass" 
+                  className="flex-1"
+                  onClick={switchCamera}
+                >
+                  <SwitchCamera className="w-4 h-4" />
+                  Switch Camera
+                </Button>
+                <Button
+                  variant="glass"
+                  className="flex-1"
+                  onClick={handleImportClick}
+                  disabled={isImporting || isScanning}
+                >
+                  <ImageUp className="w-4 h-4" />
+                  Upload Photo
+                </Button>
+                <Button
+                  variant="glass"
+                  size="icon"
+                  onClick={() => setIsSettingsOpen(true)}
+                  disabled={isScanning}
+                  aria-label="Camera settings"
+                >
+                  <Settings2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
+            {!tempCapture && hasPoseGuidance && !modelError && (
+              <div className="flex items-center justify-between gap-3 px-1">
+                <Label htmlFor="auto-capture" className="text-xs text-muted-foreground cursor-pointer">
+                  Auto-capture when your pose lines up
+                </Label>
+                <Switch
+                  id="auto-capture"
+                  checked={autoCapture}
+                  onCheckedChange={handleAutoCaptureChange}
+                />
+              </div>
+            )}
+
+            {!tempCapture && reference && (
+              <div className="flex items-center justify-between gap-3 px-1">
+                <Label htmlFor="ghost-overlay" className="text-xs text-muted-foreground cursor-pointer">
+                  Show my last {currentAngle.label.toLowerCase()} photo as a guide
+                </Label>
+                <Switch
+                  id="ghost-overlay"
+                  checked={ghostOverlay}
+                  onCheckedChange={handleGhostOverlayChange}
+                />
+              </div>
             )}
           </div>
         )}
+
+        {/* Shown on every backend, including native where there is no live preview */}
+        {!tempCapture && photos[currentPhotoStep] && !currentAngle.required && (
+          <div className="max-w-md mx-auto w-full mb-4">
+            <Button
+              variant="ghost"
+              className="w-full text-muted-foreground"
+              onClick={handleRemovePhoto}
+              disabled={isScanning}
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove {currentAngle.label} Photo
+            </Button>
+          </div>
+        )}
       </div>
 
+      <CameraSettingsSheet
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        settings={cameraSettings}
+        facingMode={facingMode}
+        torchSupported={torchSupported}
+        onChange={handleCameraSettingsChange}
+      />
+
       {/* Questionnaire */}
       <div className="max-w-md mx-auto w-full glass-panel p-4 rounded-xl mb-4">
         <Questionnaire data={questionnaire} onChange={setQuestionnaire} />
       </div>
 
+      {/* Upload privacy */}
+      <div className="max-w-md mx-auto w-full mb-4">
+        <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30 border border-border/50">
+          <Label htmlFor="blur-face" className="flex-1 text-xs text-muted-foreground leading-relaxed cursor-pointer">
+            Face photos are cropped to your hairline on this device, and aren't uploaded if no face is found. Crown and top-down photos are sent as taken. Also blur my eyes in the cropped photos.
+          </Label>
+          <Switch
+            id="blur-face"
+            checked={blurFace}
+            onCheckedChange={handleBlurFaceChange}
+          />
+        </div>
+      </div>
+
       {/* Consent */}
       <div className="max-w-md mx-auto w-full mb-4">
         <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30 border border-border/50">
@@ -302,11 +622,17 @@ export const CaptureScreen = ({ onAnalyze, onCancel, streamRef }: CaptureScreenP
             </>
           )}
         </Button>
-        
-        <Button 
-          variant="ghost" 
+
+        {missingRequired.length > 0 && (
+          <p className="text-xs text-center text-muted-foreground">
+            Add a {missingRequired.map(angle => angle.label).join(" and ")} photo to continue
+          </p>
+        )}
+
+        <Button
+          variant="ghost"
           className="w-full text-muted-foreground"
-          onClick={() => { stopCamera(); onCancel(); }}
+          onClick={onCancel}
         >
           Cancel
         </Button>
@@ -0,0 +1,240 @@
+import { useState, useRef, useCallback, useMemo, PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { DemoBadge } from "@/components/DemoBadge";
+import { PhotoType } from "@/components/PhotoStepper";
+import { StoredScan } from "@/lib/scanHistory";
+import { CAPTURE_PROTOCOL, getCaptureAngle } from "@/lib/captureProtocol";
+import { METRIC_ROWS, getMetricValue, toStyleScore } from "@/lib/metrics";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, ArrowDown, ArrowUp, Minus } from "lucide-react";
+
+interface CompareScreenProps {
+  before: StoredScan;
+  after: StoredScan;
+  onBack: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { dateStyle: "medium" });
+
+interface DiffRowProps {
+  label: string;
+  before: number | null;
+  after: number | null;
+}
+
+const DiffRow = ({ label, before, after }: DiffRowProps) => {
+  const delta = before !== null && after !== null ? after - before : null;
+  const DeltaIcon = delta === null || delta === 0 ? Minus : delta > 0 ? ArrowUp : ArrowDown;
+
+  return (
+    <div className="flex items-center justify-between py-2">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <div className="flex items-center gap-3 font-mono text-sm">
+        <span className="text-muted-foreground w-8 text-right">{before ?? "—"}</span>
+        <span className="text-muted-foreground">→</span>
+        <span className="text-foreground w-8">{after ?? "—"}</span>
+        <span className={cn(
+          "flex items-center gap-0.5 w-12 justify-end",
+          delta === null || delta === 0 ? "text-muted-foreground" : delta > 0 ? "text-green-500" : "text-destructive"
+        )}>
+          <DeltaIcon className="w-3 h-3" />
+          {delta !== null ? Math.abs(delta) : ""}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const CompareScreen = ({ before, after, onBack }: CompareScreenProps) => {
+  // Only angles both scans captured can be compared
+  const sharedAngles = CAPTURE_PROTOCOL.map(a => a.id).filter(
+    angle => before.photos[angle] && after.photos[angle]
+  );
+  const [angle, setAngle] = useState<PhotoType | undefined>(sharedAngles[0]);
+  const [overlayPosition, setOverlayPosition] = useState(50);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const updateFromPointer = useCallback((clientX: number) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const pct = ((clientX - rect.left) / rect.width) * 100;
+    setOverlayPosition(Math.max(0, Math.min(100, pct)));
+  }, []);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    isDraggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    updateFromPointer(e.clientX);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (isDraggingRef.current) updateFromPointer(e.clientX);
+  };
+
+  const handlePointerUp = () => {
+    isDraggingRef.current = false;
+  };
+
+  const tagDiff = useMemo(() => {
+    const beforeTags = before.result.likely_patterns ?? [];
+    const afterTags = after.result.likely_patterns ?? [];
+    return {
+      added: afterTags.filter(t => !beforeTags.includes(t)),
+      removed: beforeTags.filter(t => !afterTags.includes(t)),
+      kept: afterTags.filter(t => beforeTags.includes(t)),
+    };
+  }, [before, after]);
+
+  const beforePhoto = angle ? before.photos[angle] : null;
+  const afterPhoto = angle ? after.photos[angle] : null;
+  const typeChanged = (before.result.hairline_type ?? "") !== (after.result.hairline_type ?? "");
+
+  return (
+    <div className="min-h-screen flex flex-col p-4 md:p-6">
+      <div className="max-w-md mx-auto w-full flex-1 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-2 mb-6">
+          <Button variant="ghost" size="icon" onClick={onBack} aria-label="Back">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h2 className="text-lg font-semibold text-foreground">Compare Scans</h2>
+        </div>
+
+        {(before.usedFallback || after.usedFallback) && (
+          <div className="glass-panel p-3 mb-4 flex items-center gap-3">
+            <DemoBadge />
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              One of these scans is a demo result, not a real analysis.
+            </p>
+          </div>
+        )}
+
+        {/* Angle picker */}
+        {sharedAngles.length > 1 && (
+          <div className="flex gap-2 mb-4 p-1 bg-secondary rounded-xl">
+            {sharedAngles.map(a => (
+              <button
+                key={a}
+                onClick={() => setAngle(a)}
+                className={cn(
+                  "flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all",
+                  angle === a
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {getCaptureAngle(a).label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {beforePhoto && afterPhoto ? (
+          <>
+            {/* Side by side */}
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {[{ scan: before, photo: beforePhoto, label: "Before" }, { scan: after, photo: afterPhoto, label: "After" }].map(({ scan, photo, label }) => (
+                <div key={label} className="space-y-1">
+                  <div className="aspect-[3/4] rounded-xl overflow-hidden border border-border/50">
+                    <img src={photo} alt={`${label} scan`} className="w-full h-full object-cover" />
+                  </div>
+                  <p className="text-xs text-muted-foreground text-center">
+                    {label} · {formatDate(scan.createdAt)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {/* Overlay slider */}
+            <div
+              ref={overlayRef}
+              className="relative aspect-[3/4] rounded-2xl overflow-hidden border border-border/50 mb-3 touch-none select-none cursor-ew-resize"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <img src={afterPhoto} alt="After scan" className="absolute inset-0 w-full h-full object-cover" draggable={false} />
+              <img
+                src={beforePhoto}
+                alt="Before scan"
+                className="absolute inset-0 w-full h-full object-cover"
+                style={{ clipPath: `inset(0 ${100 - overlayPosition}% 0 0)` }}
+                draggable={false}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 bg-primary shadow-[0_0_8px_hsl(var(--primary))]"
+                style={{ left: `${overlayPosition}%` }}
+              />
+              <div className="absolute top-3 left-3 text-[10px] font-mono text-primary/80 bg-black/50 px-2 py-1 rounded">BEFORE</div>
+              <div className="absolute top-3 right-3 text-[10px] font-mono text-primary/80 bg-black/50 px-2 py-1 rounded">AFTER</div>
+            </div>
+            <Slider
+              value={[overlayPosition]}
+              onValueChange={([v]) => setOverlayPosition(v)}
+              min={0}
+              max={100}
+              step={1}
+              className="mb-6"
+              aria-label="Overlay position"
+            />
+          </>
+        ) : (
+          <div className="glass-panel p-6 mb-6 text-center">
+            <p className="text-sm text-muted-foreground">These scans have no photo angle in common.</p>
+          </div>
+        )}
+
+        {/* Differences */}
+        <div className="glass-panel p-4 mb-4 divide-y divide-border/50">
+          <DiffRow
+            label="Style Score"
+            before={toStyleScore(before.result.score)}
+            after={toStyleScore(after.result.score)}
+          />
+          {METRIC_ROWS.map(({ key, label }) => (
+            <DiffRow
+              key={key}
+              label={label}
+              before={getMetricValue(before.result, key)}
+              after={getMetricValue(after.result, key)}
+            />
+          ))}
+        </div>
+
+        <div className="glass-panel p-4 mb-4">
+          <h3 className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Hairline Type</h3>
+          <p className="text-sm text-foreground">
+            {before.result.hairline_type ?? "—"}
+            {typeChanged ? ` → ${after.result.hairline_type ?? "—"}` : " (unchanged)"}
+          </p>
+        </div>
+
+        <div className="glass-panel p-4 mb-6">
+          <h3 className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Tags</h3>
+          <div className="flex flex-wrap gap-2">
+            {tagDiff.kept.map(t => (
+              <span key={`kept-${t}`} className="px-3 py-1 rounded-full bg-secondary text-xs text-foreground border border-border">{t}</span>
+            ))}
+            {tagDiff.added.map(t => (
+              <span key={`added-${t}`} className="px-3 py-1 rounded-full bg-green-500/10 text-xs text-green-500 border border-green-500/30">+ {t}</span>
+            ))}
+            {tagDiff.removed.map(t => (
+              <span key={`removed-${t}`} className="px-3 py-1 rounded-full bg-destructive/10 text-xs text-destructive border border-destructive/30 line-through">{t}</span>
+            ))}
+            {tagDiff.kept.length + tagDiff.added.length + tagDiff.removed.length === 0 && (
+              <span className="text-sm text-muted-foreground">No tags</span>
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground text-center leading-relaxed">
+          Lighting, angle and distance change between sessions and affect these scores. For entertainment only.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { DemoBadge } from "@/components/DemoBadge";
+import { StoredScan } from "@/lib/scanHistory";
+import { useScanHistory } from "@/hooks/useScanHistory";
+import { useScanFlow } from "@/hooks/useScanFlow";
+import { toStyleScore } from "@/lib/metrics";
+import { capturedAngles } from "@/lib/captureProtocol";
+import { ArrowLeft, Camera, Check, ChevronRight, GitCompare, History, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface HistoryScreenProps {
+  onOpenScan: (scan: StoredScan) => void;
+  // Called with the older scan first
+  onCompare: (before: StoredScan, after: StoredScan) => void;
+  onBack: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// First captured angle in protocol order
+const thumbnailOf = (scan: StoredScan) => {
+  const [first] = capturedAngles(scan.photos);
+  return first ? scan.photos[first.id] : null;
+};
+
+export const HistoryScreen = ({ onOpenScan, onCompare, onBack }: HistoryScreenProps) => {
+  const { scans, isLoading, error, remove, removeAll } = useScanHistory();
+  const { clear: clearScanFlow } = useScanFlow();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelecting = () => {
+    setIsSelecting(prev => !prev);
+    setSelectedIds([]);
+  };
+
+  // Keep at most two selected; picking a third replaces the oldest pick
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleCompare = () => {
+    const picked = scans
+      .filter(scan => selectedIds.includes(scan.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (picked.length === 2) {
+      onCompare(picked[0], picked[1]);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await remove(id);
+    } catch {
+      toast.error('Failed to delete scan');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    try {
+      // Photos of the current session live outside the history store
+      clearScanFlow();
+      await removeAll();
+      toast.success('All scan data deleted');
+    } catch {
+      toast.error('Failed to delete scan data');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col p-4 md:p-6">
+      <div className="max-w-md mx-auto w-full flex-1 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-2 mb-6">
+          <Button variant="ghost" size="icon" onClick={onBack} aria-label="Back">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h2 className="text-lg font-semibold text-foreground flex-1">Scan History</h2>
+          {scans.length >= 2 && (
+            <Button variant={isSelecting ? "secondary" : "ghost"} size="sm" onClick={toggleSelecting}>
+              <GitCompare className="w-4 h-4" />
+              {isSelecting ? "Cancel" : "Compare"}
+            </Button>
+          )}
+        </div>
+
+        {isSelecting && (
+          <p className="text-xs text-muted-foreground mb-4">Select two scans to compare.</p>
+        )}
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <span className="inline-block w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="glass-panel p-6 text-center">
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        ) : scans.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <History className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-sm text-muted-foreground">No saved scans yet.</p>
+            <p className="text-xs text-muted-foreground mt-1">Completed scans are kept on this device only.</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 flex-1">
+              {scans.map((scan, i) => (
+                <div
+                  key={scan.id}
+                  className={cn(
+                    "glass-panel p-3 flex items-center gap-3 opacity-0 animate-fade-up border",
+                    selectedIds.includes(scan.id) ? "border-primary/60" : "border-transparent"
+                  )}
+                  style={{ animationDelay: `${Math.min(i, 8) * 50}ms`, animationFillMode: 'forwards' }}
+                >
+                  <button
+                    className="flex-1 flex items-center gap-3 text-left min-w-0"
+                    onClick={() => isSelecting ? toggleSelected(scan.id) : onOpenScan(scan)}
+                  >
+                    <div className="w-14 h-14 rounded-lg overflow-hidden bg-secondary flex items-center justify-center flex-shrink-0">
+                      {thumbnailOf(scan) ? (
+                        <img
+                          src={thumbnailOf(scan)!}
+                          alt="Scan thumbnail"
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <Camera className="w-5 h-5 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-foreground truncate">
+                          {scan.result.hairline_type || "Scan"}
+                        </span>
+                        {scan.usedFallback && <DemoBadge className="px-2 py-0.5" />}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{formatDate(scan.createdAt)}</p>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        Style Score {toStyleScore(scan.result.score)}
+                      </p>
+                    </div>
+                    {isSelecting ? (
+                      <div className={cn(
+                        "w-5 h-5 rounded-full border flex items-center justify-center flex-shrink-0",
+                        selectedIds.includes(scan.id) ? "bg-primary border-primary" : "border-border"
+                      )}>
+                        {selectedIds.includes(scan.id) && <Check className="w-3 h-3 text-primary-foreground" />}
+                      </div>
+                    ) : (
+                      <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    )}
+                  </button>
+                  {!isSelecting && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(scan.id)}
+                      disabled={deletingId === scan.id}
+                      aria-label="Delete scan"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isSelecting && (
+              <Button
+                variant="scanner"
+                size="lg"
+                className="w-full mt-6"
+                onClick={handleCompare}
+                disabled={selectedIds.length !== 2}
+              >
+                <GitCompare className="w-4 h-4" />
+                Compare {selectedIds.length}/2
+              </Button>
+            )}
+
+            {/* Delete all */}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" className="w-full mt-6 text-destructive">
+                  <Trash2 className="w-4 h-4" />
+                  Delete All Data
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete all scans?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This removes every saved scan, photo and result from this device. It cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDeleteAll}>Delete All</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
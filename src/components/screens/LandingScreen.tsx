@@ -1,11 +1,12 @@
 import { Button } from "@/components/ui/button";
-import { Shield, Zap, Brain, Scan, AlertCircle, Lock } from "lucide-react";
+import { Shield, Zap, Brain, Scan, AlertCircle, Lock, History } from "lucide-react";
 
 interface LandingScreenProps {
   onStart: () => void;
+  onHistory: () => void;
 }
 
-export const LandingScreen = ({ onStart }: LandingScreenProps) => {
+export const LandingScreen = ({ onStart, onHistory }: LandingScreenProps) => {
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6">
       <div className="relative z-10 max-w-md w-full text-center">
@@ -55,7 +56,7 @@ export const LandingScreen = ({ onStart }: LandingScreenProps) => {
             <div className="text-left">
               <p className="text-xs text-foreground font-medium mb-1">Your Privacy</p>
               <p className="text-xs text-muted-foreground leading-relaxed">
-                Photos are processed temporarily for analysis and are <strong>not stored</strong> on our servers. We do not collect personal information. <a href="https://abel-ninan.github.io/hairlinescan-ai-demo-13/privacy-policy.html" target="_blank" rel="noopener noreferrer" className="text-primary underline">Privacy Policy</a>
+                Photos are processed temporarily for analysis and are <strong>not stored</strong> on our servers. Past scans are kept only on this device. We do not collect personal information. <a href="https://abel-ninan.github.io/hairlinescan-ai-demo-13/privacy-policy.html" target="_blank" rel="noopener noreferrer" className="text-primary underline">Privacy Policy</a>
               </p>
             </div>
           </div>
@@ -74,6 +75,16 @@ export const LandingScreen = ({ onStart }: LandingScreenProps) => {
           Begin Scan
         </Button>
 
+        <Button
+          variant="ghost"
+          onClick={onHistory}
+          className="w-full mt-2 text-muted-foreground opacity-0 animate-fade-up"
+          style={{ animationDelay: '350ms', animationFillMode: 'forwards' }}
+        >
+          <History className="w-4 h-4" aria-hidden="true" />
+          Past Scans
+        </Button>
+
         {/* Entertainment Disclaimer */}
         <div className="mt-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 opacity-0 animate-fade-up" style={{ animationDelay: '400ms', animationFillMode: 'forwards' }}>
           <div className="flex items-start gap-3">
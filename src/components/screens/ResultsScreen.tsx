@@ -1,6 +1,8 @@
 import { useState, useMemo, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { AnalysisResult } from "@/types/analysis";
+import { AnalysisResult, ImageQualityReason } from "@/types/analysis";
+import { MetricRow } from "@/components/MetricRow";
+import { METRIC_ROWS, toStyleScore } from "@/lib/metrics";
 import {
   RotateCcw,
   Sun,
@@ -16,64 +18,40 @@ import {
   Eye,
   ChevronRight,
   Info,
+  History,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { DemoBadge } from "@/components/DemoBadge";
 
 interface ResultsScreenProps {
   score: number;
   analysis?: AnalysisResult | null;
+  // Result came from the opt-in demo, not the AI
+  isDemo?: boolean;
   onRestart: () => void;
+  // Offered when the server reports the photos as unusable
+  onRetake?: () => void;
+  // Shown when viewing a stored scan, to return to the history list
+  onBack?: () => void;
   photo?: string | null;
 }
 
-// Check if the analysis indicates an invalid/unusable image
-const isInvalidImage = (analysis: AnalysisResult | null | undefined): boolean => {
-  if (!analysis) return false;
-
-  const summary = analysis.summary?.toLowerCase() || '';
-  const invalidKeywords = [
-    'black', 'dark', 'not visible', 'cannot see', 'unable to', 'no hairline',
-    'cannot analyze', 'not possible', 'unclear', 'blurry', 'obscured',
-    'covered', 'hidden', 'no image', 'invalid', 'empty'
-  ];
-
-  // Check if summary contains invalid image indicators
-  const hasInvalidKeyword = invalidKeywords.some(keyword => summary.includes(keyword));
-
-  // Also check if confidence is very low (below 30%)
-  const hasLowConfidence = analysis.confidence < 0.3;
-
-  return hasInvalidKeyword || hasLowConfidence;
+// Retake guidance for each reason the server gave for unusable photos
+const RETAKE_GUIDANCE: Record<ImageQualityReason, string> = {
+  no_face: "Keep your face inside the frame",
+  hairline_not_visible: "Pull hair back and remove hats so your hairline shows",
+  too_dark: "Face a window or lamp for even lighting",
+  blurry: "Hold the phone steady and let the camera focus",
+  multiple_people: "Make sure you are the only person in the photo",
 };
 
-interface MetricRowProps {
-  label: string;
-  value: number;
-  delay?: number;
-}
-
-const MetricRow = ({ label, value, delay = 0 }: MetricRowProps) => {
-  return (
-    <div
-      className="opacity-0 animate-fade-up"
-      style={{ animationDelay: `${delay}ms`, animationFillMode: 'forwards' }}
-    >
-      <div className="flex justify-between items-center mb-1">
-        <span className="text-sm text-muted-foreground">{label}</span>
-      </div>
-      <div className="flex items-center gap-3">
-        <span className="text-4xl font-semibold text-foreground font-mono w-16">{value}</span>
-        <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
-          <div
-            className="h-full bg-primary rounded-full transition-all duration-1000 ease-out"
-            style={{ width: `${value}%` }}
-          />
-        </div>
-      </div>
-    </div>
-  );
-};
+const DEFAULT_GUIDANCE = [
+  "Good lighting on your face",
+  "Hairline clearly visible",
+  "No hats or obstructions",
+  "Face the camera directly",
+];
 
 // Hair care tips (general wellness, not medical)
 const hairCareTips = [
@@ -84,14 +62,17 @@ const hairCareTips = [
   { name: "Sun Protection", description: "Protect your scalp from sun exposure" },
 ];
 
-export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScreenProps) => {
+export const ResultsScreen = ({ score, analysis, isDemo = false, onRestart, onRetake, onBack, photo }: ResultsScreenProps) => {
   const [activeTab, setActiveTab] = useState<'rating' | 'tips'>('rating');
   const [isSaving, setIsSaving] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [saved, setSaved] = useState(false);
 
-  // Check if image is invalid/unusable
-  const imageInvalid = isInvalidImage(analysis);
+  // Results from before the server reported image quality are treated as usable
+  const imageInvalid = analysis?.image_quality?.usable === false;
+  const retakeGuidance = analysis?.image_quality?.reasons.length
+    ? analysis.image_quality.reasons.map(reason => RETAKE_GUIDANCE[reason])
+    : DEFAULT_GUIDANCE;
 
   // Save photo to device
   const handleSave = useCallback(async () => {
@@ -127,7 +108,7 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
 
     setIsSharing(true);
     try {
-      const shareText = `My HairlineScan Fun Results:\n\nStyle Score: ${Math.round((10 - (analysis?.score ?? score)) * 10)}%\n${analysis?.hairline_type ? `Style: ${analysis.hairline_type}\n` : ''}\nJust for fun - not medical advice!\n\nTry HairlineScan for entertainment`;
+      const shareText = `My HairlineScan Fun Results${isDemo ? ' (DEMO — not a real analysis)' : ''}:\n\nStyle Score: ${Math.round((10 - (analysis?.score ?? score)) * 10)}%\n${analysis?.hairline_type ? `Style: ${analysis.hairline_type}\n` : ''}\nJust for fun - not medical advice!\n\nTry HairlineScan for entertainment`;
 
       if (navigator.share) {
         await navigator.share({
@@ -147,29 +128,38 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
     } finally {
       setIsSharing(false);
     }
-  }, [analysis, score, isSharing]);
+  }, [analysis, score, isSharing, isDemo]);
 
-  // Generate metrics based on score (only if image is valid)
+  // Overall score comes from the model's 0-10 score; sub-metrics only if the model returned them
   const displayScore = analysis?.score ?? score;
-  const overallScore = Math.round(Math.max(0, Math.min(100, (10 - displayScore) * 10)));
+  const overallScore = toStyleScore(displayScore);
 
-  // Use useMemo to keep metrics stable across re-renders
   const metrics = useMemo(() => {
     if (imageInvalid) return null;
-    return {
-      overall: overallScore,
-      density: Math.round(Math.max(40, Math.min(98, overallScore + (Math.random() * 20 - 10)))),
-      hairline: Math.round(Math.max(40, Math.min(98, overallScore + (Math.random() * 15 - 5)))),
-      thickness: Math.round(Math.max(40, Math.min(98, overallScore + (Math.random() * 20 - 10)))),
-      scalp: Math.round(Math.max(50, Math.min(98, overallScore + (Math.random() * 10)))),
-      potential: Math.round(Math.max(60, Math.min(99, overallScore + 10 + (Math.random() * 10)))),
-    };
-  }, [imageInvalid, overallScore]);
+    return METRIC_ROWS
+      .filter(({ key }) => analysis?.metrics?.[key])
+      .map(({ key, label }) => ({
+        key,
+        label,
+        value: Math.round(analysis!.metrics![key]!.score),
+        confidence: analysis!.metrics![key]!.confidence,
+      }));
+  }, [imageInvalid, analysis]);
 
 
   return (
     <div className="min-h-screen flex flex-col p-4 md:p-6">
       <div className="max-w-md mx-auto w-full flex-1 flex flex-col">
+        {/* Demo Notice */}
+        {isDemo && (
+          <div className="glass-panel p-3 mb-4 flex items-center gap-3">
+            <DemoBadge />
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Sample result — your photos were not analyzed.
+            </p>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex gap-2 mb-6 p-1 bg-secondary rounded-xl">
           <button
@@ -250,17 +240,22 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
                   Unable to Analyze
                 </h3>
                 <p className="text-muted-foreground mb-4 leading-relaxed">
-                  {analysis?.summary || "The image could not be analyzed. Please ensure your hairline is clearly visible in the photo."}
+                  We couldn't get a clear look at your hairline in these photos.
                 </p>
                 <div className="glass-panel p-4 bg-secondary/50">
                   <h4 className="text-sm font-medium text-foreground mb-2">Tips for better photos:</h4>
                   <ul className="text-sm text-muted-foreground text-left space-y-1">
-                    <li className="flex gap-2"><Camera className="w-4 h-4 flex-shrink-0 mt-0.5" /> Good lighting on your face</li>
-                    <li className="flex gap-2"><Camera className="w-4 h-4 flex-shrink-0 mt-0.5" /> Hairline clearly visible</li>
-                    <li className="flex gap-2"><Camera className="w-4 h-4 flex-shrink-0 mt-0.5" /> No hats or obstructions</li>
-                    <li className="flex gap-2"><Camera className="w-4 h-4 flex-shrink-0 mt-0.5" /> Face the camera directly</li>
+                    {retakeGuidance.map(tip => (
+                      <li key={tip} className="flex gap-2"><Camera className="w-4 h-4 flex-shrink-0 mt-0.5" /> {tip}</li>
+                    ))}
                   </ul>
                 </div>
+                {onRetake && (
+                  <Button variant="scanner" className="w-full mt-4" onClick={onRetake}>
+                    <Camera className="w-4 h-4" />
+                    Retake Photos
+                  </Button>
+                )}
               </div>
             ) : (
               <>
@@ -279,12 +274,10 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
                   <div className="glass-panel p-6 mb-6 space-y-6">
                     <p className="text-xs text-center text-muted-foreground mb-2">Fun scores for entertainment</p>
                     <div className="grid grid-cols-2 gap-x-6 gap-y-6">
-                      <MetricRow label="Style Score" value={metrics.overall} delay={0} />
-                      <MetricRow label="Potential" value={metrics.potential} delay={50} />
-                      <MetricRow label="Fullness" value={metrics.density} delay={100} />
-                      <MetricRow label="Volume" value={metrics.thickness} delay={150} />
-                      <MetricRow label="Shape" value={metrics.hairline} delay={200} />
-                      <MetricRow label="Condition" value={metrics.scalp} delay={250} />
+                      <MetricRow label="Style Score" value={overallScore} confidence={analysis?.confidence} delay={0} />
+                      {metrics.map((m, i) => (
+                        <MetricRow key={m.key} label={m.label} value={m.value} confidence={m.confidence} delay={(i + 1) * 50} />
+                      ))}
                     </div>
                   </div>
                 )}
@@ -365,6 +358,33 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
                 </div>
               )}
 
+              {/* Per-Angle Section */}
+              {analysis?.angle_observations && analysis.angle_observations.length > 0 && (
+                <div
+                  className="opacity-0 animate-fade-up"
+                  style={{ animationDelay: '40ms', animationFillMode: 'forwards' }}
+                >
+                  <div className="flex items-center gap-2 mb-3">
+                    <Camera className="w-4 h-4 text-primary" />
+                    <h3 className="text-sm font-semibold text-foreground uppercase tracking-wide">By Angle</h3>
+                  </div>
+                  <div className="glass-panel overflow-hidden">
+                    {analysis.angle_observations.map((obs, j) => (
+                      <div
+                        key={obs.angle}
+                        className={cn(
+                          "p-4",
+                          j !== analysis.angle_observations!.length - 1 && "border-b border-border/50"
+                        )}
+                      >
+                        <h4 className="text-xs text-muted-foreground uppercase tracking-wide mb-1">{obs.label}</h4>
+                        <p className="text-sm text-foreground leading-relaxed">{obs.observation}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Personalized Tips Section */}
               {analysis?.personalized_tips && analysis.personalized_tips.length > 0 && (
                 <div
@@ -455,6 +475,16 @@ export const ResultsScreen = ({ score, analysis, onRestart, photo }: ResultsScre
             <RotateCcw className="w-4 h-4" />
             New Scan
           </Button>
+          {onBack && (
+            <Button
+              variant="ghost"
+              className="w-full mt-2 text-muted-foreground"
+              onClick={onBack}
+            >
+              <History className="w-4 h-4" />
+              Back to History
+            </Button>
+          )}
         </div>
 
         {/* Disclaimer */}
@@ -1,15 +1,20 @@
 import { useState, useEffect, useRef } from "react";
 import { ProgressBar } from "@/components/ProgressBar";
-import { Scan, Cpu, BarChart3, Sparkles } from "lucide-react";
+import { Scan, Cpu, BarChart3, Sparkles, AlertTriangle, RotateCcw } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { CapturedPhotos } from "@/components/screens/CaptureScreen";
 import { QuestionnaireData } from "@/components/Questionnaire";
 import { AnalysisResult } from "@/types/analysis";
-import { useAnalysis } from "@/hooks/useAnalysis";
+import { HairlineCropMap } from "@/lib/hairlineCrop";
+import { capturedAngles } from "@/lib/captureProtocol";
+import { useAnalysis, ErrorType } from "@/hooks/useAnalysis";
 import { Button } from "@/components/ui/button";
+import { DemoBadge } from "@/components/DemoBadge";
+import { toast } from "sonner";
 
 interface ScanningScreenProps {
-  onComplete: (score: number, result?: AnalysisResult) => void;
+  // `crops` is null for demo results, which never uploaded anything
+  onComplete: (score: number, result: AnalysisResult, isDemo: boolean, crops: HairlineCropMap | null) => void;
   onCancel: () => void;
   photos?: CapturedPhotos;
   questionnaire?: QuestionnaireData;
@@ -23,6 +28,19 @@ const SCAN_STEPS = [
   { label: "Almost there", icon: BarChart3, detail: "Preparing your fun results" },
 ];
 
+const FAILURE_TITLES: Record<ErrorType, string> = {
+  no_photos: "No Photos",
+  rate_limit: "Too Many Requests",
+  payload_too_large: "Photos Too Large",
+  invalid_image: "Photo Not Supported",
+  face_not_found: "Face Not Found",
+  face_model_unavailable: "Face Detection Unavailable",
+  processing_error: "Couldn't Prepare Photos",
+  server_error: "Analysis Failed",
+  network_error: "Connection Problem",
+  cooldown: "Please Wait",
+};
+
 export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }: ScanningScreenProps) => {
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState(0);
@@ -32,21 +50,31 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
   const [scanLinePosition, setScanLinePosition] = useState(0);
   const hasStartedRef = useRef(false);
 
+  const [isDemo, setIsDemo] = useState(false);
+
   const {
+    isAnalyzing,
     error,
     errorType,
-    usedSinglePhoto,
+    compression,
+    crops,
+    skippedPhotos,
     cooldownRemaining,
-    analyze
+    rateLimitWait,
+    analyze,
+    retry,
+    cancel,
+    runDemo
   } = useAnalysis();
 
-  const capturedPhotos = photos
-    ? [photos.front, photos.left, photos.right].filter(Boolean) as string[]
-    : [];
+  // Tell the user which optional photos the scan went ahead without
+  useEffect(() => {
+    skippedPhotos.forEach(({ angle, message }) => toast.warning(message, { id: `skipped-${angle}` }));
+  }, [skippedPhotos]);
 
-  const availableLabels = photos
-    ? [photos.front ? "Front" : null, photos.left ? "Left" : null, photos.right ? "Right" : null].filter(Boolean)
-    : [];
+  const photoAngles = photos ? capturedAngles(photos) : [];
+  const capturedPhotos = photoAngles.map(angle => photos[angle.id]);
+  const availableLabels = photoAngles.map(angle => angle.label);
 
   // Scanning line animation
   useEffect(() => {
@@ -96,40 +124,45 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
     runAnalysis();
   }, [photos, capturedPhotos.length, questionnaire, analyze]);
 
-  // Progress animation with timeout fallback
+  const handleRetry = async () => {
+    const result = await retry();
+    if (result) {
+      setAnalysisResult(result);
+      setAnalysisComplete(true);
+    }
+  };
+
+  // Abort the request (and refund its cooldown) before leaving
+  const handleCancel = () => {
+    cancel();
+    onCancel();
+  };
+
+  const handleShowDemo = () => {
+    setAnalysisResult(runDemo());
+    setIsDemo(true);
+    setAnalysisComplete(true);
+  };
+
+  // Progress animation; holds at 95% until a real (or opted-in demo) result arrives
   useEffect(() => {
     const totalDuration = 8000;
     const interval = 50;
     const increment = 100 / (totalDuration / interval);
-    let timeAtNinetyFive = 0;
-    const MAX_WAIT_AT_95 = 15000; // 15 seconds max wait at 95%
 
     const progressTimer = setInterval(() => {
       setProgress(prev => {
         const next = prev + increment;
 
-        if (next >= 100 && analysisComplete) {
+        if (next >= 100 && analysisComplete && analysisResult) {
           clearInterval(progressTimer);
           setTimeout(() => {
-            const score = analysisResult?.score ?? (2 + Math.random() * 7);
-            onComplete(score, analysisResult || undefined);
+            onComplete(analysisResult.score, analysisResult, isDemo, isDemo ? null : crops);
           }, 300);
           return 100;
         }
 
-        // If stuck at 95%, track time and auto-complete after timeout
         if (next >= 95 && !analysisComplete) {
-          timeAtNinetyFive += interval;
-
-          // After MAX_WAIT_AT_95ms, force completion with demo result
-          if (timeAtNinetyFive >= MAX_WAIT_AT_95) {
-            clearInterval(progressTimer);
-            setTimeout(() => {
-              const fallbackScore = 2 + Math.random() * 5;
-              onComplete(fallbackScore, undefined);
-            }, 300);
-            return 100;
-          }
           return 95;
         }
 
@@ -138,7 +171,7 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
     }, interval);
 
     return () => clearInterval(progressTimer);
-  }, [onComplete, analysisComplete, analysisResult]);
+  }, [onComplete, analysisComplete, analysisResult, isDemo, crops]);
 
   // Update step based on progress
   useEffect(() => {
@@ -155,7 +188,8 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
     return () => clearInterval(stepTimer);
   }, []);
 
-  const showCooldownError = error && errorType === 'cooldown' && !analysisComplete;
+  const showFailure = !!error && !!errorType && !analysisComplete && !isAnalyzing;
+  const retryWait = Math.max(rateLimitWait, cooldownRemaining);
 
   const CurrentStepIcon = SCAN_STEPS[currentStep]?.icon || Scan;
 
@@ -262,24 +296,45 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
               {analysisComplete ? 'Analysis complete' : SCAN_STEPS[currentStep]?.label || 'Processing...'}
             </span>
           </div>
-          {usedSinglePhoto && (
-            <p className="text-xs text-muted-foreground mt-2">
-              Using primary photo for optimized analysis
+          {compression && (
+            <p className="text-[10px] text-muted-foreground mt-2 font-mono">
+              {compression.photos.length} PHOTO{compression.photos.length === 1 ? '' : 'S'} · {Math.round(compression.totalBytes / 1024)} KB
             </p>
           )}
         </div>
       </div>
 
-      {/* Cooldown Notice */}
-      {showCooldownError && (
+      {/* Failure Notice */}
+      {showFailure && (
         <div className="px-6 pb-4">
-          <div className="glass-panel p-4 rounded-xl">
+          <div className="glass-panel p-4 rounded-xl max-w-sm mx-auto">
             <div className="flex flex-col items-center text-center gap-3">
+              <div className="p-3 rounded-full bg-destructive/10">
+                <AlertTriangle className="w-6 h-6 text-destructive" />
+              </div>
               <div>
-                <h3 className="font-medium text-foreground mb-1">Please Wait</h3>
+                <h3 className="font-medium text-foreground mb-1">{FAILURE_TITLES[errorType]}</h3>
                 <p className="text-sm text-muted-foreground">{error}</p>
+                {retryWait > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    You can retry in {retryWait}s
+                  </p>
+                )}
               </div>
-              <Button variant="ghost" onClick={onCancel}>
+              <Button
+                variant="scanner"
+                className="w-full"
+                onClick={handleRetry}
+                disabled={retryWait > 0}
+              >
+                <RotateCcw className="w-4 h-4" />
+                {retryWait > 0 ? `Retry in ${retryWait}s` : "Retry"}
+              </Button>
+              <Button variant="glass" className="w-full" onClick={handleShowDemo}>
+                Show demo result instead
+                <DemoBadge className="ml-1" />
+              </Button>
+              <Button variant="ghost" onClick={handleCancel}>
                 Go Back
               </Button>
             </div>
@@ -317,6 +372,11 @@ export const ScanningScreen = ({ onComplete, onCancel, photos, questionnaire }:
             })}
           </div>
 
+          {isAnalyzing && (
+            <Button variant="ghost" className="w-full mt-4 text-muted-foreground" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -1,80 +1,79 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { AnalysisResult } from "@/types/analysis";
+import { AnalysisResult, AnalysisResultSchema } from "@/types/analysis";
 import { CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { PhotoType } from "@/components/PhotoStepper";
 import { QuestionnaireData } from "@/components/Questionnaire";
 import { supabase } from "@/integrations/supabase/client";
-
-const MAX_PAYLOAD_SIZE = 1.5 * 1024 * 1024; // 1.5MB
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { PhotoCompressionError, compressToBudget } from "@/lib/photoCompression";
+import { HairlineCropError, HairlineCropMap, cropToHairline } from "@/lib/hairlineCrop";
+import { getBlurFace } from "@/lib/privacySettings";
+import { GuideOverlay, capturedAngles, getCaptureAngle } from "@/lib/captureProtocol";
+import { supportsPoseGuidance } from "@/lib/faceAlignment";
+
+const MAX_PAYLOAD_SIZE = 1.5 * 1024 * 1024; // 1.5MB across all photos
 const COOLDOWN_KEY = 'hairline_last_analyze_at';
 const MIN_COOLDOWN_MS = 20000; // 20 seconds
+const DEVICE_ID_KEY = 'hairline_device_id';
 
-export type ErrorType = 'payload_too_large' | 'rate_limit' | 'server_error' | 'network_error' | 'cooldown';
+export type ErrorType = 'no_photos' | 'payload_too_large' | 'invalid_image' | 'face_not_found' | 'face_model_unavailable' | 'processing_error' | 'rate_limit' | 'server_error' | 'network_error' | 'cooldown';
 
 interface UseAnalysisReturn {
   isAnalyzing: boolean;
   error: string | null;
   errorType: ErrorType | null;
+  // True only after the user explicitly opted into the demo result
   usedFallback: boolean;
-  usedSinglePhoto: boolean;
+  // Sizes of the last upload, once its photos were encoded
+  compression: CompressionReport | null;
+  // Hairline crop applied to each uploaded photo; crown and top-down angles, which show no face, are sent whole
+  crops: HairlineCropMap | null;
+  // Optional photos left out of the last upload because they couldn't be cropped
+  skippedPhotos: SkippedPhoto[];
   cooldownRemaining: number;
   rateLimitWait: number;
-  analyze: (photos: CapturedPhotos, questionnaire: QuestionnaireData) => Promise<AnalysisResult | null>;
+  // Resolves null on failure or cancellation; aborting `signal` cancels like cancel()
+  analyze: (photos: CapturedPhotos, questionnaire: QuestionnaireData, signal?: AbortSignal) => Promise<AnalysisResult | null>;
   retry: () => Promise<AnalysisResult | null>;
+  cancel: () => void;
+  runDemo: () => AnalysisResult;
   clearError: () => void;
 }
 
-// Compress and resize a photo to reduce payload size
-async function compressPhoto(dataUrl: string, maxWidth: number = 640, quality: number = 0.7): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
-
-      // Scale down if needed
-      if (width > maxWidth) {
-        height = (height * maxWidth) / width;
-        width = maxWidth;
-      }
-
-      canvas.width = width;
-      canvas.height = height;
+interface AnalysisFailure {
+  type: ErrorType;
+  message: string;
+  retryAfter: number; // seconds, 0 when not applicable
+}
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
+export interface SkippedPhoto {
+  angle: PhotoType;
+  message: string;
+}
 
-      ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL('image/jpeg', quality));
-    };
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = dataUrl;
-  });
+// Final encoded size of each uploaded photo
+export interface CompressionReport {
+  photos: { angle: PhotoType; bytes: number; width: number; height: number; mimeType: string }[];
+  totalBytes: number;
+  budgetBytes: number;
 }
 
-// Get byte size of a data URL
-function getDataUrlSize(dataUrl: string): number {
-  const base64 = dataUrl.split(',')[1] || '';
-  return Math.ceil((base64.length * 3) / 4);
+interface PendingRequest {
+  controller: AbortController;
+  // Cooldown timestamp to restore if the request is cancelled
+  previousAnalyzeAt: number;
 }
 
-// Generate demo result - used when AI is unavailable
+// Fixed demo result - only shown when the user opts in, and always labeled as a demo
 function generateFallbackResult(): AnalysisResult {
-  const score = 2 + Math.random() * 3; // 2-5 range for positive results
-  const hairlineTypes = ["Classic", "Mature", "Rounded", "M-Shaped", "Straight"];
-  const randomType = hairlineTypes[Math.floor(Math.random() * hairlineTypes.length)];
-
   return {
-    score: Math.round(score * 10) / 10,
+    score: 3.5,
     confidence: 0.75,
-    summary: "Your hairline shows a natural pattern with good overall characteristics. Remember, hairline shape varies naturally between individuals.",
+    summary: "Demo result — no AI analysis was performed on your photos.",
     observations: [
-      "Natural hairline shape detected",
-      "Good overall hair distribution",
-      "Normal variation patterns observed"
+      "Demo: natural hairline shape",
+      "Demo: even overall hair distribution",
+      "Demo: sample observations only"
     ],
     likely_patterns: ["Natural variation"],
     general_options: [
@@ -89,8 +88,16 @@ function generateFallbackResult(): AnalysisResult {
     ],
     when_to_see_a_dermatologist: [],
     disclaimer: "This is for entertainment purposes only. Always consult a dermatologist for professional advice.",
-    hairline_type: randomType,
-    hairline_description: "A natural hairline shape that is common and considered normal.",
+    hairline_type: "Classic",
+    hairline_description: "A sample description shown in demo mode.",
+    metrics: {
+      density: { score: 70, confidence: 0.5 },
+      hairline: { score: 70, confidence: 0.5 },
+      thickness: { score: 70, confidence: 0.5 },
+      scalp: { score: 75, confidence: 0.5 },
+      potential: { score: 80, confidence: 0.5 },
+    },
+    image_quality: { usable: true, reasons: [] },
     personalized_tips: [
       "Keep your hair and scalp clean with regular washing",
       "Protect your scalp from sun exposure",
@@ -99,6 +106,85 @@ function generateFallbackResult(): AnalysisResult {
   };
 }
 
+// Map a failed edge function call to an ErrorType the UI can explain
+async function describeInvokeError(err: unknown): Promise<AnalysisFailure> {
+  if (err instanceof FunctionsHttpError) {
+    const response = err.context as Response;
+    let body: { error?: string; code?: string; retryAfter?: number } = {};
+    try {
+      body = await response.clone().json();
+    } catch {
+      // Non-JSON error body
+    }
+    const retryAfter = Number(response.headers.get('Retry-After')) || body.retryAfter || 0;
+
+    if (response.status === 429) {
+      return { type: 'rate_limit', message: body.error || 'Too many requests.', retryAfter: retryAfter || 60 };
+    }
+    // The server refused one of the images themselves (wrong type, corrupt, too many pixels)
+    if (body.code && ['invalid_image', 'unsupported_image_type', 'image_type_mismatch', 'image_dimensions_too_large'].includes(body.code)) {
+      return { type: 'invalid_image', message: body.error || 'One of your photos could not be read.', retryAfter: 0 };
+    }
+    if (response.status === 413) {
+      return { type: 'payload_too_large', message: 'Your photos are too large to upload.', retryAfter: 0 };
+    }
+    return { type: 'server_error', message: body.error || `Server error (${response.status})`, retryAfter: 0 };
+  }
+
+  return { type: 'network_error', message: 'Could not reach the analysis server. Check your connection.', retryAfter: 0 };
+}
+
+// How to reframe a face photo in which no face was found
+const RETAKE_HINTS: Partial<Record<GuideOverlay, string>> = {
+  face_front: 'facing the camera with your forehead and both eyes in view',
+  face_left: 'turned to the side so your left temple, eyebrow and eye are in view',
+  face_right: 'turned to the side so your right temple, eyebrow and eye are in view',
+};
+
+// Why an optional photo was left out, completing "Your <label> photo was left out because ..."
+const SKIP_REASONS: Partial<Record<ErrorType, string>> = {
+  face_not_found: 'no face was found in it',
+  invalid_image: "it couldn't be read",
+  face_model_unavailable: "face detection isn't available right now",
+};
+
+// Map a failure while cropping or encoding on the device (before anything was uploaded)
+// to an ErrorType. `label` names the photo when the failure is tied to one.
+function describeDeviceError(err: unknown, label: string | null): AnalysisFailure {
+  const photo = label ? `your ${label} photo` : 'one of your photos';
+  const reason = err instanceof HairlineCropError || err instanceof PhotoCompressionError ? err.reason : null;
+
+  if (reason === 'unreadable') {
+    return { type: 'invalid_image', message: `We couldn't read ${photo}. Go back and retake it.`, retryAfter: 0 };
+  }
+  if (reason === 'model_unavailable') {
+    return {
+      type: 'face_model_unavailable',
+      message: `Face detection isn't available right now, so ${photo} couldn't be cropped. Nothing was uploaded.`,
+      retryAfter: 0,
+    };
+  }
+  return {
+    type: 'processing_error',
+    message: "Your photos couldn't be prepared on this device. Close other apps or tabs and try again.",
+    retryAfter: 0,
+  };
+}
+
+// Stable per-install id, sent so the server can rate limit per device rather than per IP
+function getDeviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
 // Get last analyze timestamp from localStorage
 function getLastAnalyzeAt(): number {
   try {
@@ -123,11 +209,14 @@ export function useAnalysis(): UseAnalysisReturn {
   const [error, setError] = useState<string | null>(null);
   const [errorType, setErrorType] = useState<ErrorType | null>(null);
   const [usedFallback, setUsedFallback] = useState(false);
-  const [usedSinglePhoto, setUsedSinglePhoto] = useState(false);
+  const [compression, setCompression] = useState<CompressionReport | null>(null);
+  const [crops, setCrops] = useState<HairlineCropMap | null>(null);
+  const [skippedPhotos, setSkippedPhotos] = useState<SkippedPhoto[]>([]);
   const [cooldownRemaining, setCooldownRemaining] = useState(0);
   const [rateLimitWait, setRateLimitWait] = useState(0);
   
   const inFlightRef = useRef(false);
+  const pendingRef = useRef<PendingRequest | null>(null);
   const lastRequestRef = useRef<{ photos: CapturedPhotos; questionnaire: QuestionnaireData } | null>(null);
 
   // Update cooldown countdown
@@ -155,6 +244,28 @@ export function useAnalysis(): UseAnalysisReturn {
     return () => clearInterval(interval);
   }, [rateLimitWait]);
 
+  // Abort a request and release the lock right away rather than when the fetch settles.
+  // The cooldown it started is refunded, since nothing reached the model.
+  const abortRequest = useCallback((pending: PendingRequest) => {
+    if (pendingRef.current === pending) {
+      pendingRef.current = null;
+      inFlightRef.current = false;
+      setIsAnalyzing(false);
+      setLastAnalyzeAt(pending.previousAnalyzeAt);
+      setCooldownRemaining(0);
+    }
+    pending.controller.abort();
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (pendingRef.current) {
+      abortRequest(pendingRef.current);
+    }
+  }, [abortRequest]);
+
+  // Cancel whatever is still in flight when the screen using the hook unmounts
+  useEffect(() => cancel, [cancel]);
+
   const clearError = useCallback(() => {
     setError(null);
     setErrorType(null);
@@ -164,10 +275,21 @@ export function useAnalysis(): UseAnalysisReturn {
 
   const analyze = useCallback(async (
     photos: CapturedPhotos,
-    questionnaire: QuestionnaireData
+    questionnaire: QuestionnaireData,
+    signal?: AbortSignal
   ): Promise<AnalysisResult | null> => {
     // Prevent double-clicks and re-entry
-    if (inFlightRef.current || isAnalyzing) {
+    if (inFlightRef.current || isAnalyzing || signal?.aborted) {
+      return null;
+    }
+
+    lastRequestRef.current = { photos, questionnaire };
+
+    // Nothing to send: fail before taking the lock or starting a cooldown
+    const angles = capturedAngles(photos).map(angle => angle.id);
+    if (angles.length === 0) {
+      setError('There are no photos to analyze. Go back and take at least the front photo.');
+      setErrorType('no_photos');
       return null;
     }
 
@@ -182,97 +304,158 @@ export function useAnalysis(): UseAnalysisReturn {
     }
 
     // Lock immediately
+    const pending: PendingRequest = { controller: new AbortController(), previousAnalyzeAt: lastAt };
+    const requestSignal = pending.controller.signal;
+    const abortFromCaller = () => abortRequest(pending);
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+    pendingRef.current = pending;
     inFlightRef.current = true;
     setIsAnalyzing(true);
     setError(null);
     setErrorType(null);
     setUsedFallback(false);
-    setUsedSinglePhoto(false);
+    setCompression(null);
+    setCrops(null);
+    setSkippedPhotos([]);
     setRateLimitWait(0);
-    lastRequestRef.current = { photos, questionnaire };
 
     // Save timestamp now (before request)
     setLastAnalyzeAt(Date.now());
 
+    // Fail before anything was uploaded: nothing reached the model, so refund the cooldown
+    const failOnDevice = (failure: AnalysisFailure) => {
+      setError(failure.message);
+      setErrorType(failure.type);
+      setLastAnalyzeAt(lastAt);
+      setCooldownRemaining(0);
+    };
+
     try {
-      const photoArray = [photos.front, photos.left, photos.right].filter(Boolean) as string[];
-      
-      if (photoArray.length === 0) {
-        setError('No photos to analyze');
-        setErrorType('network_error');
-        inFlightRef.current = false;
-        setIsAnalyzing(false);
+      // Crop to the hairline on device, one photo at a time (the face model is not reentrant)
+      const blurFace = getBlurFace();
+      const uploadPhotos: { angle: PhotoType; dataUrl: string }[] = [];
+      const appliedCrops: HairlineCropMap = {};
+      const skipped: SkippedPhoto[] = [];
+      for (const angle of angles) {
+        const { guide, label, required } = getCaptureAngle(angle);
+        const isFaceAngle = supportsPoseGuidance(guide);
+        let cropped = null;
+        let failure: AnalysisFailure | null = null;
+        try {
+          cropped = await cropToHairline(photos[angle]!, { blurBelowEyes: blurFace });
+        } catch (err) {
+          // Angles that show no face are sent whole anyway, so only a missing model is harmless there
+          const modelOnly = err instanceof HairlineCropError && err.reason === 'model_unavailable';
+          if (isFaceAngle || !modelOnly) {
+            failure = describeDeviceError(err, label);
+          }
+        }
+        if (requestSignal.aborted) {
+          return null;
+        }
+
+        // A face angle is never sent uncropped
+        if (!cropped && isFaceAngle && !failure) {
+          failure = {
+            type: 'face_not_found',
+            message: `No face was found in your ${label} photo, so nothing was uploaded. Go back and retake it ${RETAKE_HINTS[guide]}.`,
+            retryAfter: 0,
+          };
+        }
+
+        // Only a required angle stops the scan; an optional one is left out and the rest go ahead
+        if (failure) {
+          const skipReason = SKIP_REASONS[failure.type];
+          if (required || !skipReason) {
+            failOnDevice(failure);
+            return null;
+          }
+          skipped.push({ angle, message: `Your ${label} photo was left out because ${skipReason}.` });
+          continue;
+        }
+
+        if (cropped) {
+          appliedCrops[angle] = cropped.crop;
+        }
+        uploadPhotos.push({ angle, dataUrl: cropped?.dataUrl ?? photos[angle]! });
+      }
+      setCrops(appliedCrops);
+      setSkippedPhotos(skipped);
+
+      if (uploadPhotos.length === 0) {
+        failOnDevice({
+          type: 'no_photos',
+          message: 'None of your photos could be used. Go back and retake at least the front photo.',
+          retryAfter: 0,
+        });
         return null;
       }
 
-      // Compressing photos...
-
-      const compressedPhotos = await Promise.all(
-        photoArray.map(photo => compressPhoto(photo, 640, 0.7))
+      // Every uploaded angle gets an equal share of the budget
+      const perPhotoBudget = Math.floor(MAX_PAYLOAD_SIZE / uploadPhotos.length);
+      const encodedPhotos = await Promise.all(
+        uploadPhotos.map(async ({ angle, dataUrl }) => ({
+          angle,
+          ...await compressToBudget(dataUrl, perPhotoBudget, requestSignal),
+        }))
       );
 
-      let photosToSend = compressedPhotos;
-      const totalSize = compressedPhotos.reduce((sum, p) => sum + getDataUrlSize(p), 0);
-
-      // Total size calculated for payload check
+      setCompression({
+        photos: encodedPhotos.map(({ angle, bytes, width, height, mimeType }) => ({ angle, bytes, width, height, mimeType })),
+        totalBytes: encodedPhotos.reduce((sum, p) => sum + p.bytes, 0),
+        budgetBytes: MAX_PAYLOAD_SIZE,
+      });
 
-      if (totalSize > MAX_PAYLOAD_SIZE) {
-        photosToSend = [compressedPhotos[0]];
-        setUsedSinglePhoto(true);
-        // Payload too large, using single photo
+      // Call Supabase Edge Function (API key is stored server-side)
+      const { data, error: fnError } = await supabase.functions.invoke('analyze_hairline', {
+        body: {
+          photos: encodedPhotos.map(({ angle, dataUrl }) => ({ angle, dataUrl })),
+          answers: questionnaire
+        },
+        headers: { 'x-device-id': getDeviceId() },
+        signal: requestSignal
+      });
+
+      // Cancelled while waiting; abortRequest already cleaned up
+      if (requestSignal.aborted) {
+        return null;
       }
 
-      // Call Supabase Edge Function (API key is stored server-side)
-      try {
-        const { data, error: fnError } = await supabase.functions.invoke('analyze_hairline', {
-          body: {
-            photos: photosToSend,
-            answers: questionnaire
-          }
-        });
+      if (fnError) {
+        const failure = await describeInvokeError(fnError);
+        setError(failure.message);
+        setErrorType(failure.type);
+        setRateLimitWait(failure.retryAfter);
+        return null;
+      }
 
-        // If there's any error, silently use demo result instead of showing errors
-        if (fnError || data?.error) {
-          setUsedFallback(true);
-          inFlightRef.current = false;
-          setIsAnalyzing(false);
-          return generateFallbackResult();
-        }
+      // The edge function returns the full AnalysisResult; check it against the shared schema
+      const parsed = AnalysisResultSchema.safeParse(data);
+      if (data?.error || !parsed.success) {
+        setError(data?.error || 'The server returned an unexpected response.');
+        setErrorType('server_error');
+        return null;
+      }
 
-        // The edge function returns the full AnalysisResult
-        const result: AnalysisResult = {
-          score: data.score,
-          confidence: data.confidence,
-          summary: data.summary,
-          observations: data.observations,
-          likely_patterns: data.likely_patterns,
-          general_options: data.general_options,
-          when_to_see_a_dermatologist: data.when_to_see_a_dermatologist,
-          disclaimer: data.disclaimer,
-          hairline_type: data.hairline_type,
-          hairline_description: data.hairline_description,
-          personalized_tips: data.personalized_tips
-        };
+      return parsed.data as AnalysisResult;
 
+    } catch (err) {
+      if (requestSignal.aborted) {
+        return null;
+      }
+      // invoke() reports network failures through fnError, so this is compression failing on the device
+      failOnDevice(describeDeviceError(err, null));
+      return null;
+    } finally {
+      signal?.removeEventListener('abort', abortFromCaller);
+      // Skip if cancelled: the lock may already belong to a newer request
+      if (pendingRef.current === pending) {
+        pendingRef.current = null;
         inFlightRef.current = false;
         setIsAnalyzing(false);
-        return result;
-
-      } catch (err) {
-        throw err;
       }
-
-    } catch (err) {
-      
-      // Network or unexpected error - use fallback
-      setError('AI analysis unavailable — showing demo result');
-      setErrorType('network_error');
-      setUsedFallback(true);
-      inFlightRef.current = false;
-      setIsAnalyzing(false);
-      return generateFallbackResult();
     }
-  }, [isAnalyzing]);
+  }, [isAnalyzing, abortRequest]);
 
   const retry = useCallback(async (): Promise<AnalysisResult | null> => {
     if (!lastRequestRef.current) {
@@ -287,16 +470,28 @@ export function useAnalysis(): UseAnalysisReturn {
     return analyze(photos, questionnaire);
   }, [analyze, clearError]);
 
+  // Opt-in demo result; callers must label it (DemoBadge) wherever it is shown
+  const runDemo = useCallback((): AnalysisResult => {
+    setError(null);
+    setErrorType(null);
+    setUsedFallback(true);
+    return generateFallbackResult();
+  }, []);
+
   return {
     isAnalyzing,
     error,
     errorType,
     usedFallback,
-    usedSinglePhoto,
+    compression,
+    crops,
+    skippedPhotos,
     cooldownRemaining,
     rateLimitWait,
     analyze,
     retry,
+    cancel,
+    runDemo,
     clearError
   };
 }
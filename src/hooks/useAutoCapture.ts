@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef, RefObject } from "react";
+import { Alignment } from "@/lib/faceAlignment";
+import { QualityIssue, assessSource } from "@/lib/photoQuality";
+
+// How long the pose has to hold before the photo is taken
+const HOLD_MS = 2000;
+const TICK_MS = 100;
+// Preview frames are lower resolution than the capture, so only these block auto-capture
+const BLOCKING_ISSUES: QualityIssue[] = ['mostly_black', 'too_dark', 'too_bright', 'blurry'];
+
+interface UseAutoCaptureReturn {
+  // Whole seconds left in the hold-still countdown; null when not counting down
+  countdown: number | null;
+}
+
+function isFrameUsable(video: HTMLVideoElement): boolean {
+  if (!video.videoWidth) return false;
+  try {
+    const { issues } = assessSource(video, video.videoWidth, video.videoHeight);
+    return !issues.some(issue => BLOCKING_ISSUES.includes(issue));
+  } catch {
+    return false;
+  }
+}
+
+// Calls onFire once the face stays aligned and the frame stays sharp and well exposed for HOLD_MS
+export function useAutoCapture(
+  videoRef: RefObject<HTMLVideoElement>,
+  alignment: Alignment | null,
+  enabled: boolean,
+  onFire: () => void
+): UseAutoCaptureReturn {
+  const [isHolding, setIsHolding] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const onFireRef = useRef(onFire);
+
+  useEffect(() => {
+    onFireRef.current = onFire;
+  }, [onFire]);
+
+  // Every alignment update re-checks whether the hold can continue
+  useEffect(() => {
+    const video = videoRef.current;
+    setIsHolding(enabled && alignment?.status === 'aligned' && !!video && isFrameUsable(video));
+  }, [videoRef, alignment, enabled]);
+
+  useEffect(() => {
+    if (!isHolding) {
+      setCountdown(null);
+      return;
+    }
+
+    const startedAt = Date.now();
+    setCountdown(Math.ceil(HOLD_MS / 1000));
+    const timer = setInterval(() => {
+      const remaining = HOLD_MS - (Date.now() - startedAt);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        setIsHolding(false);
+        onFireRef.current();
+        return;
+      }
+      setCountdown(Math.ceil(remaining / 1000));
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [isHolding]);
+
+  return {
+    countdown
+  };
+}
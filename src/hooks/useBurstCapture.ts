@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState, RefObject } from "react";
+import { captureFrame, snapshotFrame } from "@/lib/captureFrame";
+import { Alignment } from "@/lib/faceAlignment";
+import { GuideOverlay } from "@/lib/captureProtocol";
+import { BurstFrame, BurstResult, measureFrameAlignment, pickBestFrame } from "@/lib/burstCapture";
+
+// Length of the scanning animation; frames are sampled throughout it
+const SCAN_DURATION_MS = 1200;
+const BURST_INTERVAL_MS = 200;
+
+interface UseBurstCaptureReturn {
+  isScanning: boolean;
+  // The last completed burst, for the debug panel
+  burst: BurstResult | null;
+  // Sample frames for the length of the scan and hand the best one to onCapture.
+  // Ignored while a burst is already running.
+  startBurst: () => void;
+}
+
+// One burst routine for every way a live photo is taken (capture button and auto-capture)
+export function useBurstCapture(
+  videoRef: RefObject<HTMLVideoElement>,
+  // Pose guide to score frames against; null for angles without pose guidance
+  guide: GuideOverlay | null,
+  onCapture: (frame: BurstFrame) => void
+): UseBurstCaptureReturn {
+  const [isScanning, setIsScanning] = useState(false);
+  const [burst, setBurst] = useState<BurstResult | null>(null);
+  const scanningRef = useRef(false);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const mountedRef = useRef(true);
+  const onCaptureRef = useRef(onCapture);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  }, [onCapture]);
+
+  // Stop sampling if the screen goes away mid-burst
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      timersRef.current.forEach(clearTimeout);
+    };
+  }, []);
+
+  const startBurst = useCallback(() => {
+    if (scanningRef.current) return;
+    scanningRef.current = true;
+    setIsScanning(true);
+    setBurst(null);
+
+    const startedAt = Date.now();
+    const samples: Omit<BurstFrame, 'scores' | 'alignment'>[] = [];
+    // Pose checks run one at a time while the burst continues, each on its own frame
+    const alignments: Promise<Alignment | null>[] = [];
+    let poseQueue: Promise<unknown> = Promise.resolve();
+
+    const sampleFrame = () => {
+      const video = videoRef.current;
+      if (!video) return;
+      const frame = captureFrame(video);
+      if (!frame) return;
+
+      samples.push({ ...frame, offsetMs: Date.now() - startedAt });
+      if (guide) {
+        const snapshot = snapshotFrame(video);
+        const pending = poseQueue.then(() => measureFrameAlignment(snapshot, guide));
+        poseQueue = pending;
+        alignments.push(pending);
+      } else {
+        alignments.push(Promise.resolve(null));
+      }
+    };
+
+    // Sample frames while the scanning animation runs, then keep the best one
+    const interval = setInterval(sampleFrame, BURST_INTERVAL_MS);
+    const finish = setTimeout(async () => {
+      clearInterval(interval);
+      sampleFrame();
+      const measured = await Promise.all(alignments);
+      if (!mountedRef.current) return;
+
+      const result = pickBestFrame(samples.map((sample, i) => ({ ...sample, alignment: measured[i] })));
+      if (result) {
+        setBurst(result);
+        onCaptureRef.current(result.best);
+      }
+      scanningRef.current = false;
+      setIsScanning(false);
+    }, SCAN_DURATION_MS);
+    timersRef.current = [interval, finish];
+  }, [videoRef, guide]);
+
+  return { isScanning, burst, startBurst };
+}
@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useRef, MutableRefObject } from "react";
+import { CameraSettings, FacingMode } from "@/lib/cameraSettings";
+
+// 'unavailable' means no camera API or no camera at all
+export type CameraPermission = 'unknown' | 'prompt' | 'granted' | 'denied' | 'unavailable';
+
+// 'paused' while the page is hidden; the stream resumes when it becomes visible again
+export type CameraStatus = 'idle' | 'starting' | 'active' | 'paused' | 'error';
+
+// The one live camera stream, shared by every capture screen
+export interface CameraState {
+  stream: MediaStream | null;
+  streamRef: MutableRefObject<MediaStream | null>;
+  status: CameraStatus;
+  permission: CameraPermission;
+  // Why the last start failed or the stream stopped; null while things are fine
+  error: string | null;
+  facingMode: FacingMode;
+  settings: CameraSettings;
+  torchSupported: boolean;
+  start: () => Promise<void>;
+  stop: () => void;
+  switchCamera: () => void;
+  setFacingMode: (facingMode: FacingMode) => void;
+  // Persists the settings; `facingMode` is the side the chosen camera points to
+  updateSettings: (settings: CameraSettings, facingMode: FacingMode) => void;
+  // Shows the stream in this video element (null to detach)
+  attach: (video: HTMLVideoElement | null) => void;
+}
+
+export const CameraContext = createContext<CameraState | null>(null);
+
+export function useCamera(): CameraState {
+  const context = useContext(CameraContext);
+  if (!context) {
+    throw new Error("useCamera must be used within a CameraProvider");
+  }
+  return context;
+}
+
+// A ref for reading frames plus a callback ref that keeps the element attached to the
+// stream, including after the element remounts
+export function useCameraVideo() {
+  const { attach } = useCamera();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  const bindVideo = useCallback((video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    attach(video);
+  }, [attach]);
+
+  return { videoRef, bindVideo };
+}
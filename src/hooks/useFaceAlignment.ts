@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef, RefObject } from "react";
+import { Haptics, ImpactStyle } from "@capacitor/haptics";
+import { GuideOverlay } from "@/lib/captureProtocol";
+import { Alignment, AlignmentStatus, evaluateAlignment, measurePose } from "@/lib/faceAlignment";
+import { loadFaceApi } from "@/lib/faceModel";
+
+// Pause between detections; the CPU backend needs most of this per frame on older phones
+const DETECT_INTERVAL_MS = 250;
+
+interface UseFaceAlignmentReturn {
+  alignment: Alignment | null;
+  isModelLoading: boolean;
+  // Set when the face model could not be loaded; guidance is then unavailable
+  modelError: string | null;
+}
+
+// Short tap when the pose first becomes aligned; no-op where haptics are unsupported
+function signalAligned(): void {
+  Haptics.impact({ style: ImpactStyle.Light }).catch(() => {
+    // No vibration support (e.g. desktop or iOS Safari)
+  });
+}
+
+export function useFaceAlignment(
+  videoRef: RefObject<HTMLVideoElement>,
+  guide: GuideOverlay,
+  enabled: boolean
+): UseFaceAlignmentReturn {
+  const [alignment, setAlignment] = useState<Alignment | null>(null);
+  const [isModelLoading, setIsModelLoading] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const lastStatusRef = useRef<AlignmentStatus | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setAlignment(null);
+      lastStatusRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) {
+        try {
+          const pose = await measurePose(video);
+          if (cancelled) return;
+
+          const next = evaluateAlignment(pose, guide);
+          if (next.status === 'aligned' && lastStatusRef.current !== 'aligned') {
+            signalAligned();
+          }
+          lastStatusRef.current = next.status;
+          setAlignment(next);
+        } catch {
+          // Frame not readable (e.g. stream switching); try again on the next tick
+        }
+      }
+      if (!cancelled) {
+        timer = setTimeout(tick, DETECT_INTERVAL_MS);
+      }
+    };
+
+    setIsModelLoading(true);
+    loadFaceApi()
+      .then(() => {
+        if (cancelled) return;
+        setModelError(null);
+        tick();
+      })
+      .catch(() => {
+        if (!cancelled) setModelError('Face guidance is unavailable on this device');
+      })
+      .finally(() => {
+        if (!cancelled) setIsModelLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoRef, guide, enabled]);
+
+  return {
+    alignment,
+    isModelLoading,
+    modelError
+  };
+}
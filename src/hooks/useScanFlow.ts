@@ -0,0 +1,36 @@
+import { createContext, useContext } from "react";
+import { CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { QuestionnaireData } from "@/components/Questionnaire";
+import { StoredScan } from "@/lib/scanHistory";
+import { PhotoQualityMap } from "@/lib/photoQuality";
+import { FramingMatchMap } from "@/lib/framingMatch";
+
+// In-flight scan state shared by the /capture → /scan → /results routes
+export interface ScanFlowState {
+  photos: CapturedPhotos | null;
+  questionnaire: QuestionnaireData | null;
+  quality: PhotoQualityMap | null;
+  framing: FramingMatchMap | null;
+  // Most recent completed scan, with full-resolution photos (history only keeps thumbnails)
+  lastScan: StoredScan | null;
+  setCapture: (
+    photos: CapturedPhotos,
+    questionnaire: QuestionnaireData,
+    quality: PhotoQualityMap,
+    framing: FramingMatchMap
+  ) => void;
+  setLastScan: (scan: StoredScan) => void;
+  reset: () => void;
+  // reset() plus the last completed scan, for Delete All Data
+  clear: () => void;
+}
+
+export const ScanFlowContext = createContext<ScanFlowState | null>(null);
+
+export function useScanFlow(): ScanFlowState {
+  const context = useContext(ScanFlowContext);
+  if (!context) {
+    throw new Error("useScanFlow must be used within a ScanFlowProvider");
+  }
+  return context;
+}
@@ -0,0 +1,52 @@
+import { useState, useCallback, useEffect } from "react";
+import { StoredScan, listScans, deleteScan, clearScans } from "@/lib/scanHistory";
+
+interface UseScanHistoryReturn {
+  scans: StoredScan[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  removeAll: () => Promise<void>;
+}
+
+export function useScanHistory(): UseScanHistoryReturn {
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setScans(await listScans());
+      setError(null);
+    } catch {
+      setError('Scan history is unavailable on this device');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteScan(id);
+    setScans(prev => prev.filter(scan => scan.id !== id));
+  }, []);
+
+  const removeAll = useCallback(async () => {
+    await clearScans();
+    setScans([]);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    scans,
+    isLoading,
+    error,
+    refresh,
+    remove,
+    removeAll
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { BurstFrame, pickBestFrame } from "@/lib/burstCapture";
+import { Alignment, FacePose } from "@/lib/faceAlignment";
+import { PhotoQuality } from "@/lib/photoQuality";
+
+type Sample = Omit<BurstFrame, "scores">;
+
+const quality = (overrides: Partial<PhotoQuality>): PhotoQuality => ({
+  width: 1024,
+  height: 768,
+  brightness: 128,
+  darkFraction: 0,
+  brightFraction: 0,
+  sharpness: 100,
+  issues: [],
+  ...overrides,
+});
+
+const pose: FacePose = { centerX: 0.5, centerY: 0.5, faceWidth: 0.4, headroom: 0.2, roll: 0, yaw: 0, eyeOpenness: 0.3 };
+const aligned: Alignment = { status: "aligned", cue: "", pose };
+const blinking: Alignment = { status: "aligned", cue: "", pose: { ...pose, eyeOpenness: 0.1 } };
+const adjusting: Alignment = { status: "adjust", cue: "", pose };
+const noFace: Alignment = { status: "no_face", cue: "", pose: null };
+
+const frame = (id: string, q: Partial<PhotoQuality> | null, alignment: Alignment | null = null): Sample => ({
+  dataUrl: id,
+  quality: q ? quality(q) : null,
+  offsetMs: 0,
+  alignment,
+});
+
+describe("pickBestFrame", () => {
+  it("returns null for an empty burst", () => {
+    expect(pickBestFrame([])).toBeNull();
+  });
+
+  it.each<[string, Sample[], string]>([
+    ["the sharpest frame when everything else is equal", [frame("a", { sharpness: 80 }), frame("b", { sharpness: 200 }), frame("c", { sharpness: 120 })], "b"],
+    ["a well exposed frame over a slightly sharper dark one", [frame("a", { sharpness: 100, brightness: 40 }), frame("b", { sharpness: 90 })], "b"],
+    ["an open-eyed frame over a sharper blink", [frame("a", { sharpness: 200 }, blinking), frame("b", { sharpness: 160 }, aligned)], "b"],
+    ["an aligned frame over a sharper one that needs adjusting", [frame("a", { sharpness: 200 }, adjusting), frame("b", { sharpness: 160 }, aligned)], "b"],
+    ["a frame with a face over a sharper one without", [frame("a", { sharpness: 200 }, noFace), frame("b", { sharpness: 160 }, adjusting)], "b"],
+    ["the later frame on a tie", [frame("a", { sharpness: 100 }), frame("b", { sharpness: 100 })], "b"],
+    ["a scored frame over one without a quality report", [frame("a", null), frame("b", { sharpness: 10 })], "b"],
+  ])("prefers %s", (_, samples, best) => {
+    expect(pickBestFrame(samples)?.best.dataUrl).toBe(best);
+  });
+
+  it.each<[string, Sample, Partial<BurstFrame["scores"]>]>([
+    ["a sharp, well exposed frame without pose guidance", frame("a", { sharpness: 200 }), { sharpness: 1, exposure: 1, alignment: 1, total: 1 }],
+    ["a frame without a quality report", frame("a", null), { sharpness: 0, exposure: 0.5 }],
+    ["a frame lit at half the target brightness", frame("a", { sharpness: 200, brightness: 64 }), { exposure: 0.5 }],
+    ["a frame with clipped highlights", frame("a", { sharpness: 200, brightFraction: 0.4 }), { exposure: 0.6 }],
+    ["a blink", frame("a", { sharpness: 200 }, blinking), { alignment: 0.3 }],
+    ["a frame that needs adjusting", frame("a", { sharpness: 200 }, adjusting), { alignment: 0.5 }],
+    ["a frame without a face", frame("a", { sharpness: 200 }, noFace), { alignment: 0 }],
+  ])("scores %s", (_, sample, scores) => {
+    const result = pickBestFrame([sample]);
+    for (const [key, value] of Object.entries(scores)) {
+      expect(result?.best.scores[key as keyof BurstFrame["scores"]]).toBeCloseTo(value);
+    }
+  });
+
+  it("scores sharpness relative to the sharpest frame", () => {
+    const result = pickBestFrame([frame("a", { sharpness: 50 }), frame("b", { sharpness: 200 })]);
+    expect(result?.frames.map(f => f.scores.sharpness)).toEqual([0.25, 1]);
+  });
+});
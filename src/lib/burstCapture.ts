@@ -0,0 +1,78 @@
+import { Alignment, evaluateAlignment, measurePose } from "@/lib/faceAlignment";
+import { GuideOverlay } from "@/lib/captureProtocol";
+import { PhotoQuality } from "@/lib/photoQuality";
+import { CapturedFrame } from "@/lib/captureFrame";
+
+// Picks the best of several frames sampled while the capture animation runs
+
+// Component scores, each 0-1
+export interface FrameScores {
+  // Relative to the sharpest frame in the burst
+  sharpness: number;
+  exposure: number;
+  // 1 when no pose guidance is available for the angle
+  alignment: number;
+  total: number;
+}
+
+export interface BurstFrame extends CapturedFrame {
+  // Milliseconds since the burst started
+  offsetMs: number;
+  // Pose measured on this frame; null for angles without pose guidance or when detection failed
+  alignment: Alignment | null;
+  scores: FrameScores;
+}
+
+export interface BurstResult {
+  frames: BurstFrame[];
+  best: BurstFrame;
+}
+
+const WEIGHTS = { sharpness: 0.5, exposure: 0.25, alignment: 0.25 };
+// Eye aspect ratio below this is treated as a blink
+const BLINK_EYE_OPENNESS = 0.18;
+const TARGET_BRIGHTNESS = 128;
+
+function exposureScore(quality: PhotoQuality | null): number {
+  if (!quality) return 0.5;
+  const fromMean = 1 - Math.min(1, Math.abs(quality.brightness - TARGET_BRIGHTNESS) / TARGET_BRIGHTNESS);
+  const clipped = Math.min(1, quality.darkFraction + quality.brightFraction);
+  return Math.max(0, fromMean * (1 - clipped));
+}
+
+function alignmentScore(alignment: Alignment | null): number {
+  if (!alignment) return 1;
+  const base = alignment.status === 'aligned' ? 1 : alignment.status === 'adjust' ? 0.5 : 0;
+  const blinking = !!alignment.pose && alignment.pose.eyeOpenness < BLINK_EYE_OPENNESS;
+  return blinking ? base * 0.3 : base;
+}
+
+// Pose status of one sampled frame, measured on that frame rather than taken from the
+// live preview's last detection, so a blink only counts against the frame it is in.
+// Null when detection fails (e.g. the face model is unavailable).
+export async function measureFrameAlignment(snapshot: HTMLCanvasElement | null, guide: GuideOverlay): Promise<Alignment | null> {
+  if (!snapshot) return null;
+  try {
+    return evaluateAlignment(await measurePose(snapshot), guide);
+  } catch {
+    return null;
+  }
+}
+
+// Score every frame against the rest of the burst and keep the highest total
+export function pickBestFrame(samples: Omit<BurstFrame, 'scores'>[]): BurstResult | null {
+  if (samples.length === 0) return null;
+
+  const maxSharpness = Math.max(1, ...samples.map(s => s.quality?.sharpness ?? 0));
+  const frames = samples.map(sample => {
+    const sharpness = (sample.quality?.sharpness ?? 0) / maxSharpness;
+    const exposure = exposureScore(sample.quality);
+    const alignment = alignmentScore(sample.alignment);
+    const total = WEIGHTS.sharpness * sharpness + WEIGHTS.exposure * exposure + WEIGHTS.alignment * alignment;
+    return { ...sample, scores: { sharpness, exposure, alignment, total } };
+  });
+
+  // Ties go to the later frame; the user has had longer to settle
+  const best = frames.reduce((a, b) => (b.scores.total >= a.scores.total ? b : a));
+  return { frames, best };
+}
@@ -0,0 +1,87 @@
+// Camera choice for this device, kept in localStorage. Device ids from
+// enumerateDevices() are stable per origin on the same device.
+const CAMERA_SETTINGS_KEY = 'hairline_camera_settings';
+
+export type FacingMode = "user" | "environment";
+
+export type ResolutionPreset = 'hd' | 'fhd' | 'uhd';
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { label: string; width: number; height: number }> = {
+  hd: { label: "720p", width: 1280, height: 720 },
+  fhd: { label: "1080p", width: 1920, height: 1080 },
+  uhd: { label: "4K", width: 3840, height: 2160 },
+};
+
+export interface CameraSettings {
+  // Chosen camera for each facing; unset means let the browser pick by facingMode
+  deviceIds: Partial<Record<FacingMode, string>>;
+  resolution: ResolutionPreset;
+  torch: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceIds: {},
+  resolution: 'hd',
+  torch: false,
+};
+
+export function getCameraSettings(): CameraSettings {
+  try {
+    const raw = localStorage.getItem(CAMERA_SETTINGS_KEY);
+    if (!raw) return DEFAULT_CAMERA_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<CameraSettings>;
+    return {
+      deviceIds: parsed.deviceIds ?? {},
+      resolution: parsed.resolution && parsed.resolution in RESOLUTION_PRESETS ? parsed.resolution : 'hd',
+      torch: parsed.torch === true,
+    };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+export function setCameraSettings(settings: CameraSettings): void {
+  try {
+    localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Constraints for a specific camera, or any camera of the facing when no id is given
+export function buildVideoConstraints(
+  deviceId: string | undefined,
+  facingMode: FacingMode,
+  resolution: ResolutionPreset
+): MediaTrackConstraints {
+  const { width, height } = RESOLUTION_PRESETS[resolution];
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+}
+
+// Which way a camera points: from its capabilities where the browser reports them,
+// otherwise from its label. Null for cameras that don't say (e.g. most webcams).
+export function guessFacing(device: MediaDeviceInfo): FacingMode | null {
+  const capabilities = (device as InputDeviceInfo).getCapabilities?.();
+  const reported = capabilities?.facingMode?.[0];
+  if (reported === 'user' || reported === 'environment') return reported;
+  if (/front|user|facetime/i.test(device.label)) return 'user';
+  if (/back|rear|environment/i.test(device.label)) return 'environment';
+  return null;
+}
+
+// Torch is not in the DOM typings yet
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+export function supportsTorch(track: MediaStreamTrack | undefined): boolean {
+  const capabilities = track?.getCapabilities?.() as TorchCapabilities | undefined;
+  return !!capabilities?.torch;
+}
+
+export async function applyTorch(track: MediaStreamTrack | undefined, on: boolean): Promise<void> {
+  if (!track || !supportsTorch(track)) return;
+  await track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+}
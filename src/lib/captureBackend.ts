@@ -0,0 +1,57 @@
+import { Capacitor } from "@capacitor/core";
+import { Camera, CameraDirection, CameraResultType, CameraSource } from "@capacitor/camera";
+import { ImportedPhoto, importPhoto } from "@/lib/photoImport";
+import type { CaptureAngle } from "@/lib/captureProtocol";
+
+// Where photos come from. On iOS the system camera and photo library replace getUserMedia,
+// which in WKWebView has permission quirks and lower quality. Both paths end in an
+// ImportedPhoto, so each angle is stored in CapturedPhotos the same way.
+export interface CaptureBackend {
+  kind: 'native' | 'web';
+  // Opens the system camera for the angle; null when cancelled. Unset on web, where
+  // photos are taken from the live getUserMedia preview instead.
+  takePhoto?: (angle: CaptureAngle) => Promise<ImportedPhoto | null>;
+  // Opens the photo library; null when cancelled. Unset on web, which uses a file input.
+  pickPhoto?: () => Promise<ImportedPhoto | null>;
+}
+
+// The plugin rejects with this message when the user closes the camera or library
+function isCancellation(error: unknown): boolean {
+  return error instanceof Error && /cancel/i.test(error.message);
+}
+
+async function getNativePhoto(source: CameraSource, angle?: CaptureAngle): Promise<ImportedPhoto | null> {
+  try {
+    const photo = await Camera.getPhoto({
+      source,
+      resultType: CameraResultType.Uri,
+      direction: angle?.facing === "environment" ? CameraDirection.Rear : CameraDirection.Front,
+      quality: 90,
+      correctOrientation: true,
+      saveToGallery: false,
+    });
+    if (!photo.webPath) return null;
+
+    // Run it through the import path, which resizes, strips metadata and scores it
+    const blob = await (await fetch(photo.webPath)).blob();
+    const file = new File([blob], `photo.${photo.format}`, { type: blob.type || `image/${photo.format}` });
+    return await importPhoto(file);
+  } catch (error) {
+    if (isCancellation(error)) return null;
+    throw error;
+  }
+}
+
+const nativeCaptureBackend: CaptureBackend = {
+  kind: 'native',
+  takePhoto: (angle) => getNativePhoto(CameraSource.Camera, angle),
+  pickPhoto: () => getNativePhoto(CameraSource.Photos),
+};
+
+const webCaptureBackend: CaptureBackend = {
+  kind: 'web',
+};
+
+export const captureBackend: CaptureBackend = Capacitor.isNativePlatform()
+  ? nativeCaptureBackend
+  : webCaptureBackend;
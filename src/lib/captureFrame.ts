@@ -0,0 +1,53 @@
+import { PhotoQuality, assessSource } from "@/lib/photoQuality";
+
+export interface CapturedFrame {
+  dataUrl: string;
+  // Null if the canvas could not be read back for scoring
+  quality: PhotoQuality | null;
+}
+
+// Grab the current video frame as a JPEG (max 1024 wide). Never mirrored, even though the
+// front camera preview is: photos are kept as the camera saw them, like the system camera
+// and imported photos, so every capture path stores the same orientation.
+export function captureFrame(video: HTMLVideoElement): CapturedFrame | null {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx || !video.videoWidth) return null;
+
+  // Calculate dimensions (max 1024 width)
+  const maxWidth = 1024;
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+
+  canvas.width = width;
+  canvas.height = height;
+
+  ctx.drawImage(video, 0, 0, width, height);
+
+  // Convert to JPEG with compression
+  const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+
+  // Score the frame before it can be used; a failed check should not block capture
+  let quality: PhotoQuality | null = null;
+  try {
+    quality = assessSource(canvas, canvas.width, canvas.height);
+  } catch {
+    // Canvas readback unavailable - capture without a quality report
+  }
+  return { dataUrl, quality };
+}
+
+// Small copy of the current frame for face detection, which is cheaper to run on
+// (the live pose check reads the video at this size too)
+export function snapshotFrame(video: HTMLVideoElement, maxWidth: number = 320): HTMLCanvasElement | null {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx || !video.videoWidth) return null;
+
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
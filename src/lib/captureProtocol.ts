@@ -0,0 +1,19 @@
+import type { CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { CAPTURE_PROTOCOL, type CaptureAngle } from "../../supabase/functions/_shared/captureProtocol.ts";
+
+// The angle list is declared once, shared with the edge function
+export { ANGLE_IDS, CAPTURE_PROTOCOL, getCaptureAngle, isAngleId } from "../../supabase/functions/_shared/captureProtocol.ts";
+export type { AngleId, CaptureAngle, GuideOverlay } from "../../supabase/functions/_shared/captureProtocol.ts";
+
+export function emptyPhotos(): CapturedPhotos {
+  return Object.fromEntries(CAPTURE_PROTOCOL.map(angle => [angle.id, null])) as CapturedPhotos;
+}
+
+// Angles with a photo, in protocol order. Scans saved before an angle existed lack its key.
+export function capturedAngles(photos: Partial<CapturedPhotos>): CaptureAngle[] {
+  return CAPTURE_PROTOCOL.filter(angle => !!photos[angle.id]);
+}
+
+export function missingRequiredAngles(photos: Partial<CapturedPhotos>): CaptureAngle[] {
+  return CAPTURE_PROTOCOL.filter(angle => angle.required && !photos[angle.id]);
+}
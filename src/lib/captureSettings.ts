@@ -0,0 +1,56 @@
+// Device-level capture preferences, kept in localStorage
+const AUTO_CAPTURE_KEY = 'hairline_auto_capture';
+const CAPTURE_DEBUG_KEY = 'hairline_capture_debug';
+const GHOST_OVERLAY_KEY = 'hairline_ghost_overlay';
+
+// Take the photo automatically once the pose holds; on unless the user turned it off
+export function getAutoCapture(): boolean {
+  try {
+    return localStorage.getItem(AUTO_CAPTURE_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+export function setAutoCapture(value: boolean): void {
+  try {
+    localStorage.setItem(AUTO_CAPTURE_KEY, String(value));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Shows per-frame burst scores under the preview for QA; defaults to on in dev builds
+export function getCaptureDebug(): boolean {
+  try {
+    const stored = localStorage.getItem(CAPTURE_DEBUG_KEY);
+    return stored === null ? import.meta.env.DEV : stored === 'true';
+  } catch {
+    return import.meta.env.DEV;
+  }
+}
+
+export function setCaptureDebug(value: boolean): void {
+  try {
+    localStorage.setItem(CAPTURE_DEBUG_KEY, String(value));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Overlay the last stored photo of the angle on the preview; off until the user turns it on
+export function getGhostOverlay(): boolean {
+  try {
+    return localStorage.getItem(GHOST_OVERLAY_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setGhostOverlay(value: boolean): void {
+  try {
+    localStorage.setItem(GHOST_OVERLAY_KEY, String(value));
+  } catch {
+    // Ignore storage errors
+  }
+}
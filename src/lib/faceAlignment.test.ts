@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { AlignmentStatus, FacePose, evaluateAlignment, supportsPoseGuidance } from "@/lib/faceAlignment";
+import { GuideOverlay } from "@/lib/captureProtocol";
+
+// Centered, level, at a comfortable distance and looking straight at the camera
+const pose: FacePose = { centerX: 0.5, centerY: 0.5, faceWidth: 0.4, headroom: 0.2, roll: 0, yaw: 0, eyeOpenness: 0.3 };
+
+describe("evaluateAlignment", () => {
+  it.each<[string, GuideOverlay, Partial<FacePose> | null, AlignmentStatus, string]>([
+    ["no face", "face_front", null, "no_face", "Position your face in the frame"],
+    ["a well framed front pose", "face_front", {}, "aligned", "Looks good — hold still"],
+    ["a face too far away", "face_front", { faceWidth: 0.2 }, "adjust", "Move a little closer"],
+    ["a face too close", "face_front", { faceWidth: 0.7 }, "adjust", "Move the camera back a little"],
+    ["a face off to the side", "face_front", { centerX: 0.75 }, "adjust", "Center your face in the frame"],
+    ["a face too low", "face_front", { centerY: 0.75 }, "adjust", "Center your face in the frame"],
+    ["no room above the head", "face_front", { headroom: 0.05 }, "adjust", "Leave room above your head for the hairline"],
+    ["a tilted head", "face_front", { roll: -12 }, "adjust", "Keep your head level"],
+    ["a turned head on the front guide", "face_front", { yaw: 0.3 }, "adjust", "Look straight at the camera"],
+    ["a front pose on the left guide", "face_left", {}, "adjust", "Turn your head to the right to show your left temple"],
+    ["a left temple pose", "face_left", { yaw: -0.5 }, "aligned", "Looks good — hold still"],
+    ["turning too far for the left guide", "face_left", { yaw: -1.2 }, "adjust", "Turn back a little towards the camera"],
+    ["a front pose on the right guide", "face_right", {}, "adjust", "Turn your head to the left to show your right temple"],
+    ["a right temple pose", "face_right", { yaw: 0.5 }, "aligned", "Looks good — hold still"],
+    ["turning too far for the right guide", "face_right", { yaw: 1.2 }, "adjust", "Turn back a little towards the camera"],
+    ["any yaw on a guide without a target", "crown", { yaw: 0.8 }, "aligned", "Looks good — hold still"],
+    ["several problems, reporting distance first", "face_front", { faceWidth: 0.2, roll: 20, yaw: 0.5 }, "adjust", "Move a little closer"],
+  ])("%s", (_, guide, overrides, status, cue) => {
+    const alignment = evaluateAlignment(overrides ? { ...pose, ...overrides } : null, guide);
+    expect(alignment).toMatchObject({ status, cue });
+  });
+});
+
+describe("supportsPoseGuidance", () => {
+  it.each<[GuideOverlay, boolean]>([
+    ["face_front", true],
+    ["face_left", true],
+    ["face_right", true],
+    ["crown", false],
+    ["top", false],
+  ])("%s: %s", (guide, expected) => {
+    expect(supportsPoseGuidance(guide)).toBe(expected);
+  });
+});
@@ -0,0 +1,135 @@
+import { GuideOverlay } from "@/lib/captureProtocol";
+import { detectFace } from "@/lib/faceModel";
+
+// Live pose checks for the capture preview, run on raw (unmirrored) camera frames
+
+export interface FacePose {
+  // Face box center, as fractions of the frame
+  centerX: number;
+  centerY: number;
+  // Face box width as a fraction of the frame width; a proxy for distance
+  faceWidth: number;
+  // Free space above the face box, as a fraction of the frame height
+  headroom: number;
+  // Head tilt in degrees, 0 when the eyes are level
+  roll: number;
+  // Nose offset from the eye midpoint in eye-distances; negative when the head
+  // turns to the subject's right (showing the left temple)
+  yaw: number;
+  // Mean eye aspect ratio (lid gap over eye width); drops towards 0 during a blink
+  eyeOpenness: number;
+}
+
+export type AlignmentStatus = 'no_face' | 'adjust' | 'aligned';
+
+export interface Alignment {
+  status: AlignmentStatus;
+  cue: string;
+  pose: FacePose | null;
+}
+
+interface YawTarget {
+  min: number;
+  max: number;
+  // Shown when yaw is below min / above max
+  belowCue: string;
+  aboveCue: string;
+}
+
+// Only face guides get pose checks; crown and top-down shots have no face to track
+const YAW_TARGETS: Partial<Record<GuideOverlay, YawTarget>> = {
+  face_front: {
+    min: -0.15,
+    max: 0.15,
+    belowCue: "Look straight at the camera",
+    aboveCue: "Look straight at the camera",
+  },
+  face_left: {
+    min: -0.9,
+    max: -0.3,
+    belowCue: "Turn back a little towards the camera",
+    aboveCue: "Turn your head to the right to show your left temple",
+  },
+  face_right: {
+    min: 0.3,
+    max: 0.9,
+    belowCue: "Turn your head to the left to show your right temple",
+    aboveCue: "Turn back a little towards the camera",
+  },
+};
+
+const MIN_FACE_WIDTH = 0.25;
+const MAX_FACE_WIDTH = 0.6;
+const MAX_CENTER_OFFSET = 0.2;
+const MAX_ROLL_DEGREES = 8;
+// Room for the hairline above the detector box (which starts around the brows)
+const MIN_HEADROOM = 0.12;
+// Preview frames are detected at a smaller input size to keep the loop responsive
+const PREVIEW_INPUT_SIZE = 224;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+type Point = { x: number; y: number };
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio over the six landmark points of one eye (corner, two upper, corner, two lower)
+function eyeAspectRatio(eye: Point[]): number {
+  const width = distance(eye[0], eye[3]);
+  if (!width) return 0;
+  return (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * width);
+}
+
+// Measure the pose in one frame; null when no face is visible
+export async function measurePose(input: HTMLVideoElement | HTMLCanvasElement): Promise<FacePose | null> {
+  const frameWidth = input instanceof HTMLVideoElement ? input.videoWidth : input.width;
+  const frameHeight = input instanceof HTMLVideoElement ? input.videoHeight : input.height;
+  if (!frameWidth || !frameHeight) return null;
+
+  const detection = await detectFace(input, PREVIEW_INPUT_SIZE);
+  if (!detection) return null;
+
+  const { box } = detection.detection;
+  const { landmarks } = detection;
+  const eyeCenters = [landmarks.getLeftEye(), landmarks.getRightEye()]
+    .map(points => ({ x: average(points.map(p => p.x)), y: average(points.map(p => p.y)) }))
+    .sort((a, b) => a.x - b.x);
+  const [eyeA, eyeB] = eyeCenters;
+  const eyeDistance = Math.hypot(eyeB.x - eyeA.x, eyeB.y - eyeA.y) || 1;
+  const noseTip = landmarks.getNose()[3];
+
+  return {
+    centerX: (box.x + box.width / 2) / frameWidth,
+    centerY: (box.y + box.height / 2) / frameHeight,
+    faceWidth: box.width / frameWidth,
+    headroom: box.y / frameHeight,
+    roll: (Math.atan2(eyeB.y - eyeA.y, eyeB.x - eyeA.x) * 180) / Math.PI,
+    yaw: (noseTip.x - (eyeA.x + eyeB.x) / 2) / eyeDistance,
+    eyeOpenness: average([eyeAspectRatio(landmarks.getLeftEye()), eyeAspectRatio(landmarks.getRightEye())]),
+  };
+}
+
+export function supportsPoseGuidance(guide: GuideOverlay): boolean {
+  return guide in YAW_TARGETS;
+}
+
+// Compare a pose with the target for the current guide; the first problem found becomes the cue
+export function evaluateAlignment(pose: FacePose | null, guide: GuideOverlay): Alignment {
+  if (!pose) {
+    return { status: 'no_face', cue: "Position your face in the frame", pose };
+  }
+
+  const adjust = (cue: string): Alignment => ({ status: 'adjust', cue, pose });
+  const yawTarget = YAW_TARGETS[guide];
+
+  if (pose.faceWidth < MIN_FACE_WIDTH) return adjust("Move a little closer");
+  if (pose.faceWidth > MAX_FACE_WIDTH) return adjust("Move the camera back a little");
+  if (Math.abs(pose.centerX - 0.5) > MAX_CENTER_OFFSET || Math.abs(pose.centerY - 0.5) > MAX_CENTER_OFFSET) {
+    return adjust("Center your face in the frame");
+  }
+  if (pose.headroom < MIN_HEADROOM) return adjust("Leave room above your head for the hairline");
+  if (Math.abs(pose.roll) > MAX_ROLL_DEGREES) return adjust("Keep your head level");
+  if (yawTarget && pose.yaw < yawTarget.min) return adjust(yawTarget.belowCue);
+  if (yawTarget && pose.yaw > yawTarget.max) return adjust(yawTarget.aboveCue);
+
+  return { status: 'aligned', cue: "Looks good — hold still", pose };
+}
@@ -0,0 +1,45 @@
+// On-device face detection: the tiny face detector and 68-point landmark models from
+// @vladmandic/face-api, with weights bundled in public/models/face
+const MODEL_URL = `${import.meta.env.BASE_URL}models/face`;
+const DETECTOR_MIN_SCORE = 0.4;
+
+export type FaceApi = typeof import("@vladmandic/face-api");
+
+let faceApiPromise: Promise<FaceApi> | null = null;
+
+// Load the library and weights on first use; they stay cached for the session
+export function loadFaceApi(): Promise<FaceApi> {
+  if (faceApiPromise) return faceApiPromise;
+
+  faceApiPromise = (async () => {
+    const faceapi = await import("@vladmandic/face-api");
+    // Plain CPU backend: slower than WebGL but behaves the same in every WebView
+    await (faceapi.tf as unknown as { setBackend: (name: string) => Promise<boolean> }).setBackend("cpu");
+    await Promise.all([
+      faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
+      faceapi.nets.faceLandmark68TinyNet.loadFromUri(MODEL_URL),
+    ]);
+    return faceapi;
+  })();
+
+  // Allow a later call to retry if loading failed
+  faceApiPromise.catch(() => {
+    faceApiPromise = null;
+  });
+
+  return faceApiPromise;
+}
+
+export type FaceInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+// Single most prominent face with landmarks, or undefined when none is found.
+// Smaller input sizes are faster and good enough for live preview frames.
+export async function detectFace(input: FaceInput, inputSize: number = 320) {
+  const faceapi = await loadFaceApi();
+  return faceapi
+    .detectSingleFace(input, new faceapi.TinyFaceDetectorOptions({
+      inputSize,
+      scoreThreshold: DETECTOR_MIN_SCORE,
+    }))
+    .withFaceLandmarks(true);
+}
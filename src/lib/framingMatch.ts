@@ -0,0 +1,158 @@
+import { PhotoType } from "@/components/PhotoStepper";
+import { GuideOverlay, getCaptureAngle } from "@/lib/captureProtocol";
+import { FacePose, measurePose, supportsPoseGuidance } from "@/lib/faceAlignment";
+import { StoredScan } from "@/lib/scanHistory";
+import { loadImage } from "@/lib/loadImage";
+
+// How closely a new capture repeats the framing of the user's previous photo of the
+// same angle, so photos taken weeks apart stay comparable
+
+// Previous photo shown as a ghost over the preview
+export interface ReferencePhoto {
+  scanId: string;
+  createdAt: number;
+  dataUrl: string;
+}
+
+export type ReferencePhotoMap = Partial<Record<PhotoType, ReferencePhoto>>;
+
+// Component scores, each 0-1; position and distance are null when either photo has no face
+export interface FramingMatch {
+  referenceScanId: string;
+  score: number;
+  position: number | null;
+  distance: number | null;
+  lighting: number;
+  layout: number;
+}
+
+export type FramingMatchMap = Partial<Record<PhotoType, FramingMatch>>;
+
+// Coarse grayscale grid used to compare overall layout and lighting
+const GRID_WIDTH = 24;
+const GRID_HEIGHT = 32;
+// Face centers this far apart (as a fraction of the frame) score 0 for position
+const MAX_CENTER_SHIFT = 0.3;
+
+// Newest stored photo for each angle. Front camera angles skip older scans, whose photos
+// may be mirrored and so would not line up with a new capture.
+export function findReferencePhotos(scans: StoredScan[]): ReferencePhotoMap {
+  const references: ReferencePhotoMap = {};
+  const newestFirst = [...scans].sort((a, b) => b.createdAt - a.createdAt);
+  for (const scan of newestFirst) {
+    for (const [angle, dataUrl] of Object.entries(scan.photos) as [PhotoType, string | null][]) {
+      if (!scan.unmirrored && getCaptureAngle(angle)?.facing === "user") continue;
+      if (dataUrl && !references[angle]) {
+        references[angle] = { scanId: scan.id, createdAt: scan.createdAt, dataUrl };
+      }
+    }
+  }
+  return references;
+}
+
+async function loadCanvas(dataUrl: string): Promise<HTMLCanvasElement> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+}
+
+// Center-cropped to the 3:4 preview aspect so both photos are compared as the user saw them
+function toGrid(source: HTMLCanvasElement): Float32Array {
+  const grid = document.createElement("canvas");
+  grid.width = GRID_WIDTH;
+  grid.height = GRID_HEIGHT;
+  const ctx = grid.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Failed to get canvas context");
+
+  const targetAspect = GRID_WIDTH / GRID_HEIGHT;
+  const cropWidth = Math.min(source.width, source.height * targetAspect);
+  const cropHeight = cropWidth / targetAspect;
+  ctx.drawImage(
+    source,
+    (source.width - cropWidth) / 2, (source.height - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, GRID_WIDTH, GRID_HEIGHT
+  );
+
+  const { data } = ctx.getImageData(0, 0, GRID_WIDTH, GRID_HEIGHT);
+  const gray = new Float32Array(GRID_WIDTH * GRID_HEIGHT);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+const mean = (values: Float32Array) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+
+// Normalized cross-correlation of the two grids, clamped to 0-1
+function layoutSimilarity(a: Float32Array, b: Float32Array): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (!varA || !varB) return 0;
+  return Math.max(0, cov / Math.sqrt(varA * varB));
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function poseScores(current: FacePose | null, reference: FacePose | null) {
+  if (!current || !reference) return { position: null, distance: null };
+  const shift = Math.hypot(current.centerX - reference.centerX, current.centerY - reference.centerY);
+  return {
+    position: clamp01(1 - shift / MAX_CENTER_SHIFT),
+    distance: clamp01(Math.min(current.faceWidth, reference.faceWidth) / Math.max(current.faceWidth, reference.faceWidth)),
+  };
+}
+
+// Both photos are in camera orientation: captures, imports and native photos are all stored
+// unmirrored, and findReferencePhotos skips older scans that may not be
+export async function compareFraming(
+  currentDataUrl: string,
+  reference: ReferencePhoto,
+  guide: GuideOverlay
+): Promise<FramingMatch> {
+  const [current, previous] = await Promise.all([loadCanvas(currentDataUrl), loadCanvas(reference.dataUrl)]);
+  const currentGrid = toGrid(current);
+  const previousGrid = toGrid(previous);
+
+  const lighting = clamp01(1 - Math.abs(mean(currentGrid) - mean(previousGrid)) / 128);
+  const layout = layoutSimilarity(currentGrid, previousGrid);
+
+  // Face position and size only mean something for the face angles
+  let position: number | null = null;
+  let distance: number | null = null;
+  if (supportsPoseGuidance(guide)) {
+    try {
+      const currentPose = await measurePose(current);
+      const previousPose = await measurePose(previous);
+      ({ position, distance } = poseScores(currentPose, previousPose));
+    } catch {
+      // Face model unavailable - score on layout and lighting alone
+    }
+  }
+
+  const parts = [layout, lighting, position, distance].filter((v): v is number => v !== null);
+  const score = parts.reduce((sum, v) => sum + v, 0) / parts.length;
+
+  return {
+    referenceScanId: reference.scanId,
+    score: Math.round(score * 100) / 100,
+    position: position === null ? null : Math.round(position * 100) / 100,
+    distance: distance === null ? null : Math.round(distance * 100) / 100,
+    lighting: Math.round(lighting * 100) / 100,
+    layout: Math.round(layout * 100) / 100,
+  };
+}
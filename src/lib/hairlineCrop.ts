@@ -0,0 +1,118 @@
+import { PhotoType } from "@/components/PhotoStepper";
+import { detectFace } from "@/lib/faceModel";
+import { loadImage } from "@/lib/loadImage";
+
+// Crops each face photo to the hairline before upload using the on-device face model.
+// Only the crop is sent to the analysis server.
+
+// Crop rectangle within the full photo, as fractions of its width/height
+export interface HairlineCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Everything below this fraction of the full photo's height was blurred; null when not blurred
+  blurFrom: number | null;
+}
+
+export type HairlineCropMap = Partial<Record<PhotoType, HairlineCrop>>;
+
+export interface CroppedPhoto {
+  dataUrl: string;
+  crop: HairlineCrop;
+}
+
+// Why a photo could not be cropped. A photo in which no face is found is not an error:
+// cropToHairline resolves null for it.
+export type HairlineCropFailure = "unreadable" | "model_unavailable" | "canvas_unavailable";
+
+export class HairlineCropError extends Error {
+  reason: HairlineCropFailure;
+
+  constructor(reason: HairlineCropFailure, message: string) {
+    super(message);
+    this.name = "HairlineCropError";
+    this.reason = reason;
+  }
+}
+
+// Margins as multiples of the detected face size
+const MARGIN_ABOVE_BROWS = 1.0;
+const MARGIN_BELOW_EYES = 0.15;
+const MARGIN_SIDES = 0.35;
+// Pixelation block size for the blurred region, as a fraction of the face width
+const BLUR_BLOCK = 0.08;
+
+// Pixelate a horizontal band of the canvas by scaling it down and back up
+function pixelate(ctx: CanvasRenderingContext2D, top: number, blockSize: number): void {
+  const { width, height } = ctx.canvas;
+  const bandHeight = height - top;
+  if (bandHeight <= 0) return;
+
+  const small = document.createElement("canvas");
+  small.width = Math.max(1, Math.round(width / blockSize));
+  small.height = Math.max(1, Math.round(bandHeight / blockSize));
+  const smallCtx = small.getContext("2d");
+  if (!smallCtx) throw new HairlineCropError("canvas_unavailable", "Failed to get canvas context");
+
+  smallCtx.drawImage(ctx.canvas, 0, top, width, bandHeight, 0, 0, small.width, small.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(small, 0, 0, small.width, small.height, 0, top, width, bandHeight);
+}
+
+// Resolve null when no single face is found; callers must not send the uncropped photo
+// of a face angle. Other failures reject with a HairlineCropError.
+export async function cropToHairline(
+  dataUrl: string,
+  options: { blurBelowEyes: boolean }
+): Promise<CroppedPhoto | null> {
+  const img = await loadImage(dataUrl).catch(() => {
+    throw new HairlineCropError("unreadable", "Failed to decode photo");
+  });
+  const detection = await detectFace(img).catch(() => {
+    throw new HairlineCropError("model_unavailable", "Face detection failed to run");
+  });
+  if (!detection) return null;
+
+  const { box } = detection.detection;
+  const { landmarks } = detection;
+  const brows = [...landmarks.getLeftEyeBrow(), ...landmarks.getRightEyeBrow()];
+  const eyes = [...landmarks.getLeftEye(), ...landmarks.getRightEye()];
+  const browTop = Math.min(...brows.map(p => p.y));
+  const eyeTop = Math.min(...eyes.map(p => p.y));
+  const eyeBottom = Math.max(...eyes.map(p => p.y));
+
+  const imgWidth = img.naturalWidth;
+  const imgHeight = img.naturalHeight;
+  const left = Math.max(0, Math.round(box.x - box.width * MARGIN_SIDES));
+  const right = Math.min(imgWidth, Math.round(box.x + box.width * (1 + MARGIN_SIDES)));
+  const top = Math.max(0, Math.round(browTop - box.height * MARGIN_ABOVE_BROWS));
+  const bottom = Math.min(imgHeight, Math.round(eyeBottom + box.height * MARGIN_BELOW_EYES));
+  if (right - left < 1 || bottom - top < 1) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = right - left;
+  canvas.height = bottom - top;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new HairlineCropError("canvas_unavailable", "Failed to get canvas context");
+
+  ctx.drawImage(img, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+
+  let blurFrom: number | null = null;
+  if (options.blurBelowEyes) {
+    const blurTop = Math.max(top, Math.round(eyeTop - (eyeBottom - eyeTop)));
+    pixelate(ctx, blurTop - top, Math.max(4, Math.round(box.width * BLUR_BLOCK)));
+    blurFrom = blurTop / imgHeight;
+  }
+
+  return {
+    dataUrl: canvas.toDataURL("image/jpeg", 0.92),
+    crop: {
+      x: left / imgWidth,
+      y: top / imgHeight,
+      width: canvas.width / imgWidth,
+      height: canvas.height / imgHeight,
+      blurFrom,
+    },
+  };
+}
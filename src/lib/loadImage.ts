@@ -0,0 +1,33 @@
+// Decode an image from a URL (usually a data URL) or a Blob. Aborting `signal` stops
+// the load and rejects with an AbortError.
+export function loadImage(source: string | Blob, signal?: AbortSignal): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Image load cancelled', 'AbortError'));
+      return;
+    }
+
+    const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+    const img = new Image();
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    const onAbort = () => {
+      cleanup();
+      img.src = '';
+      reject(new DOMException('Image load cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    img.onload = () => {
+      cleanup();
+      resolve(img);
+    };
+    img.onerror = () => {
+      cleanup();
+      reject(new Error('Failed to load image'));
+    };
+    img.src = objectUrl ?? (source as string);
+  });
+}
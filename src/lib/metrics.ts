@@ -0,0 +1,21 @@
+import { AnalysisResult, MetricKey } from "@/types/analysis";
+
+// Sub-metrics in display order; only those the model returned are shown
+export const METRIC_ROWS: { key: MetricKey; label: string }[] = [
+  { key: "potential", label: "Potential" },
+  { key: "density", label: "Fullness" },
+  { key: "thickness", label: "Volume" },
+  { key: "hairline", label: "Shape" },
+  { key: "scalp", label: "Condition" },
+];
+
+// The model's 0-10 score (lower is better) as the 0-100 "Style Score" shown in the UI
+export function toStyleScore(score: number): number {
+  return Math.round(Math.max(0, Math.min(100, (10 - score) * 10)));
+}
+
+// Rounded sub-metric score, or null if the model did not return it
+export function getMetricValue(result: AnalysisResult | null | undefined, key: MetricKey): number | null {
+  const metric = result?.metrics?.[key];
+  return metric ? Math.round(metric.score) : null;
+}
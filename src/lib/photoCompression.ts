@@ -0,0 +1,219 @@
+import { loadImage } from "@/lib/loadImage";
+
+// Re-encodes captured photos so the upload stays under the edge function's payload budget.
+// Encoding runs in a Web Worker where OffscreenCanvas is available, otherwise on the main thread.
+
+export interface EncodedPhoto {
+  dataUrl: string;
+  bytes: number;
+  width: number;
+  height: number;
+  quality: number;
+  mimeType: string;
+}
+
+// Tried in order until a photo fits its share of the budget; the last step is used regardless
+export const ENCODE_STEPS: { maxWidth: number; quality: number }[] = [
+  { maxWidth: 640, quality: 0.7 },
+  { maxWidth: 640, quality: 0.6 },
+  { maxWidth: 560, quality: 0.55 },
+  { maxWidth: 480, quality: 0.5 },
+  { maxWidth: 400, quality: 0.45 },
+  { maxWidth: 320, quality: 0.4 },
+];
+
+// Messages exchanged with photoCompression.worker.ts
+export type CompressionWorkerMessage =
+  | { type: 'compress'; id: number; dataUrl: string; maxBytes: number; mimeType: string }
+  | { type: 'cancel'; id: number };
+
+// Exactly one of `photo` or `error` is set
+export interface CompressionWorkerResponse {
+  id: number;
+  photo?: EncodedPhoto;
+  error?: string;
+}
+
+// Why a photo could not be encoded for upload
+export type PhotoCompressionFailure = 'unreadable' | 'canvas_unavailable';
+
+export class PhotoCompressionError extends Error {
+  reason: PhotoCompressionFailure;
+
+  constructor(reason: PhotoCompressionFailure, message: string) {
+    super(message);
+    this.name = 'PhotoCompressionError';
+    this.reason = reason;
+  }
+}
+
+interface PendingCompression {
+  resolve: (photo: EncodedPhoto) => void;
+  reject: (error: Error) => void;
+}
+
+let webpSupported: boolean | null = null;
+let worker: Worker | null = null;
+// Set once the worker fails to start; every later call stays on the main thread
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingCompressions = new Map<number, PendingCompression>();
+
+function abortError(): DOMException {
+  return new DOMException('Compression cancelled', 'AbortError');
+}
+
+// Browsers that cannot encode WebP silently fall back to PNG
+export function supportsWebP(): boolean {
+  if (webpSupported === null) {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 1;
+      webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+    } catch {
+      webpSupported = false;
+    }
+  }
+  return webpSupported;
+}
+
+// Get byte size of a data URL
+export function getDataUrlSize(dataUrl: string): number {
+  const base64 = dataUrl.split(',')[1] || '';
+  return Math.ceil((base64.length * 3) / 4);
+}
+
+function encode(img: HTMLImageElement, maxWidth: number, quality: number, mimeType: string): EncodedPhoto {
+  const scale = Math.min(1, maxWidth / img.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new PhotoCompressionError('canvas_unavailable', 'Failed to get canvas context');
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  return {
+    dataUrl,
+    bytes: getDataUrlSize(dataUrl),
+    width: canvas.width,
+    height: canvas.height,
+    quality,
+    mimeType,
+  };
+}
+
+async function compressOnMainThread(
+  dataUrl: string,
+  maxBytes: number,
+  mimeType: string,
+  signal?: AbortSignal
+): Promise<EncodedPhoto> {
+  const img = await loadImage(dataUrl, signal).catch((err: unknown) => {
+    if (signal?.aborted) throw err;
+    throw new PhotoCompressionError('unreadable', 'Failed to decode photo');
+  });
+
+  let encoded: EncodedPhoto | null = null;
+  for (const { maxWidth, quality } of ENCODE_STEPS) {
+    if (signal?.aborted) throw abortError();
+    encoded = encode(img, maxWidth, quality, mimeType);
+    if (encoded.bytes <= maxBytes) break;
+  }
+  return encoded!;
+}
+
+function canUseWorker(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+}
+
+function failWorker(message: string): void {
+  workerUnavailable = true;
+  worker?.terminate();
+  worker = null;
+  pendingCompressions.forEach(({ reject }) => reject(new Error(message)));
+  pendingCompressions.clear();
+}
+
+function getWorker(): Worker | null {
+  if (workerUnavailable || !canUseWorker()) return null;
+  if (worker) return worker;
+
+  try {
+    worker = new Worker(new URL('./photoCompression.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<CompressionWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingCompressions.get(response.id);
+    if (!pending) return;
+    pendingCompressions.delete(response.id);
+    if (response.photo) {
+      pending.resolve(response.photo);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  };
+  worker.onerror = () => failWorker('Compression worker failed');
+
+  return worker;
+}
+
+function compressInWorker(
+  target: Worker,
+  dataUrl: string,
+  maxBytes: number,
+  mimeType: string,
+  signal?: AbortSignal
+): Promise<EncodedPhoto> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const id = nextRequestId++;
+    const onAbort = () => {
+      pendingCompressions.delete(id);
+      target.postMessage({ type: 'cancel', id } satisfies CompressionWorkerMessage);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingCompressions.set(id, {
+      resolve: photo => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(photo);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    });
+    target.postMessage({ type: 'compress', id, dataUrl, maxBytes, mimeType } satisfies CompressionWorkerMessage);
+  });
+}
+
+// Step down width and quality until the photo is at most `maxBytes`. Rejects with a
+// PhotoCompressionError, or an AbortError when `signal` fires.
+export async function compressToBudget(dataUrl: string, maxBytes: number, signal?: AbortSignal): Promise<EncodedPhoto> {
+  const mimeType = supportsWebP() ? 'image/webp' : 'image/jpeg';
+
+  const target = getWorker();
+  if (target) {
+    try {
+      return await compressInWorker(target, dataUrl, maxBytes, mimeType, signal);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      // Fall through: the main thread may manage what the worker could not
+    }
+  }
+
+  return compressOnMainThread(dataUrl, maxBytes, mimeType, signal);
+}
@@ -0,0 +1,81 @@
+import {
+  ENCODE_STEPS,
+  type CompressionWorkerMessage,
+  type CompressionWorkerResponse,
+  type EncodedPhoto,
+} from "./photoCompression";
+
+// Off-main-thread version of compressToBudget's encoding loop
+const cancelled = new Set<number>();
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function encodeToBudget(id: number, dataUrl: string, maxBytes: number, mimeType: string): Promise<EncodedPhoto | null> {
+  const source = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    let type = mimeType;
+    let best: { blob: Blob; width: number; height: number; quality: number } | null = null;
+
+    for (const { maxWidth, quality } of ENCODE_STEPS) {
+      if (cancelled.has(id)) return null;
+
+      const scale = Math.min(1, maxWidth / bitmap.width);
+      const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to get canvas context');
+
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      let blob = await canvas.convertToBlob({ type, quality });
+      // No encoder for the requested type here (e.g. WebP on Safari); use JPEG from now on
+      if (blob.type !== type) {
+        type = 'image/jpeg';
+        blob = await canvas.convertToBlob({ type, quality });
+      }
+
+      best = { blob, width: canvas.width, height: canvas.height, quality };
+      if (blob.size <= maxBytes) break;
+    }
+
+    return {
+      dataUrl: await blobToDataUrl(best!.blob),
+      bytes: best!.blob.size,
+      width: best!.width,
+      height: best!.height,
+      quality: best!.quality,
+      mimeType: type,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<CompressionWorkerMessage>) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    cancelled.add(message.id);
+    return;
+  }
+
+  let response: CompressionWorkerResponse | null;
+  try {
+    const photo = await encodeToBudget(message.id, message.dataUrl, message.maxBytes, message.mimeType);
+    response = photo ? { id: message.id, photo } : null;
+  } catch (err) {
+    response = { id: message.id, error: err instanceof Error ? err.message : 'Compression failed' };
+  } finally {
+    cancelled.delete(message.id);
+  }
+
+  if (response) {
+    self.postMessage(response);
+  }
+};
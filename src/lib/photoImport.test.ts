@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { readExifOrientation } from "@/lib/photoImport";
+
+// Hand-built JPEG headers; the reader never looks past the metadata segments
+
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+const u16 = (n: number, little: boolean) => (little ? [n & 0xff, n >> 8] : [n >> 8, n & 0xff]);
+const u32 = (n: number, little: boolean) => {
+  const bytes = [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+  return little ? bytes.reverse() : bytes;
+};
+
+const SOI = [0xff, 0xd8];
+const segment = (marker: number, payload: number[]) => [0xff, marker, ...u16(payload.length + 2, false), ...payload];
+const APP0_JFIF = segment(0xe0, [...ascii("JFIF"), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const SOS = segment(0xda, [1, 1, 0, 0, 0x3f, 0]);
+
+// APP1 "Exif\0\0" + TIFF header + IFD0 with the given (tag, value) SHORT entries
+function exif(entries: [number, number][], little = false): number[] {
+  const tiff = [
+    ...(little ? ascii("II") : ascii("MM")),
+    ...u16(42, little),
+    ...u32(8, little),
+    ...u16(entries.length, little),
+    ...entries.flatMap(([tag, value]) => [...u16(tag, little), ...u16(3, little), ...u32(1, little), ...u16(value, little), 0, 0]),
+    ...u32(0, little),
+  ];
+  return segment(0xe1, [...ascii("Exif"), 0, 0, ...tiff]);
+}
+
+const ORIENTATION = 0x0112;
+const IMAGE_WIDTH = 0x0100;
+
+const blob = (...parts: number[][]) => new Blob([new Uint8Array(parts.flat())]);
+
+describe("readExifOrientation", () => {
+  it.each<[string, Blob, number]>([
+    ["a big-endian EXIF orientation", blob(SOI, exif([[ORIENTATION, 6]])), 6],
+    ["a little-endian EXIF orientation", blob(SOI, exif([[ORIENTATION, 3]], true)), 3],
+    ["orientation after other IFD entries", blob(SOI, exif([[IMAGE_WIDTH, 640], [ORIENTATION, 8]])), 8],
+    ["EXIF after a JFIF header", blob(SOI, APP0_JFIF, exif([[ORIENTATION, 5]])), 5],
+    ["a JPEG without EXIF", blob(SOI, APP0_JFIF, SOS), 1],
+    ["EXIF without an orientation tag", blob(SOI, exif([[IMAGE_WIDTH, 640]])), 1],
+    ["an out-of-range orientation", blob(SOI, exif([[ORIENTATION, 9]])), 1],
+    ["EXIF after the start of scan", blob(SOI, SOS, exif([[ORIENTATION, 6]])), 1],
+    ["an IFD cut off mid-entry", blob(SOI, exif([[ORIENTATION, 6]]).slice(0, 24)), 1],
+    ["a PNG", blob([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 1],
+    ["an empty file", blob([]), 1],
+  ])("reads %s", async (_, file, orientation) => {
+    expect(await readExifOrientation(file)).toBe(orientation);
+  });
+});
@@ -0,0 +1,134 @@
+import { PhotoQuality, assessSource } from "@/lib/photoQuality";
+import { loadImage } from "@/lib/loadImage";
+
+// Turns a picked file (file input on web, photo library on iOS) into the same
+// shape as a live capture: an upright JPEG with no metadata, plus a quality report
+
+export interface ImportedPhoto {
+  dataUrl: string;
+  // Null if the canvas could not be read back for scoring
+  quality: PhotoQuality | null;
+}
+
+// Same output size as live capture
+const MAX_WIDTH = 1024;
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+export const IMPORT_ACCEPT = "image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif";
+
+function isHeic(file: File): boolean {
+  return /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+}
+
+// Read the EXIF orientation tag (1-8) from a JPEG; 1 when absent or not a JPEG
+export async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, 64 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    // Stop at start-of-scan; metadata segments all come before it
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + size;
+  }
+  return 1;
+}
+
+// Current browsers rotate images by their EXIF tag when decoding; older WebKit does not
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== "undefined" && !!CSS.supports?.("image-orientation", "from-image");
+}
+
+// Safari decodes HEIC natively; elsewhere convert it with libheif first
+async function decodeImage(file: File): Promise<HTMLImageElement> {
+  try {
+    return await loadImage(file);
+  } catch (error) {
+    if (!isHeic(file)) throw error;
+  }
+
+  const { default: heic2any } = await import("heic2any");
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+  return loadImage(Array.isArray(converted) ? converted[0] : converted);
+}
+
+// Map the EXIF orientation onto the canvas so the drawn image comes out upright
+function applyOrientation(ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number): void {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+}
+
+export async function importPhoto(file: File): Promise<ImportedPhoto> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error("That photo is too large. Choose one under 25 MB.");
+  }
+  if (!file.type.startsWith("image/") && !isHeic(file)) {
+    throw new Error("That file isn't a photo.");
+  }
+
+  let img: HTMLImageElement;
+  try {
+    img = await decodeImage(file);
+  } catch {
+    throw new Error(isHeic(file)
+      ? "This HEIC photo couldn't be opened. Try exporting it as JPEG."
+      : "This photo couldn't be opened.");
+  }
+
+  const orientation = browserAppliesOrientation() ? 1 : await readExifOrientation(file);
+  // Orientations 5-8 swap width and height
+  const swapped = orientation >= 5;
+  const uprightWidth = swapped ? img.naturalHeight : img.naturalWidth;
+  const uprightHeight = swapped ? img.naturalWidth : img.naturalHeight;
+
+  const scale = Math.min(1, MAX_WIDTH / uprightWidth);
+  const width = Math.round(uprightWidth * scale);
+  const height = Math.round(uprightHeight * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+
+  applyOrientation(ctx, orientation, width, height);
+  ctx.drawImage(img, 0, 0, swapped ? height : width, swapped ? width : height);
+
+  // Re-encoding through the canvas drops EXIF, GPS and any other embedded metadata
+  const dataUrl = canvas.toDataURL("image/jpeg", 0.85);
+
+  let quality: PhotoQuality | null = null;
+  try {
+    quality = assessSource(canvas, width, height);
+  } catch {
+    // Canvas readback unavailable - import without a quality report
+  }
+  return { dataUrl, quality };
+}
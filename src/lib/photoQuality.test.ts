@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { analyzeImageData, QualityIssue } from "@/lib/photoQuality";
+
+const SIZE = 8;
+
+// Synthetic RGBA pixels; `luma(x, y)` sets all three channels
+function image(luma: (x: number, y: number) => number): ImageData {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = luma(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: SIZE, height: SIZE, colorSpace: "srgb" } as ImageData;
+}
+
+const flat = (value: number) => image(() => value);
+const checkerboard = (a: number, b: number) => image((x, y) => ((x + y) % 2 ? a : b));
+
+describe("analyzeImageData", () => {
+  it.each<[string, ImageData, number, number, QualityIssue[]]>([
+    ["a detailed, well exposed photo", checkerboard(100, 156), 1280, 960, []],
+    ["a black frame (not also blurry)", flat(0), 1280, 960, ["mostly_black"]],
+    ["an underexposed photo", checkerboard(20, 40), 1280, 960, ["too_dark"]],
+    ["an overexposed photo", checkerboard(230, 254), 1280, 960, ["too_bright"]],
+    ["a featureless frame", flat(128), 1280, 960, ["blurry"]],
+    ["a small source photo", checkerboard(100, 156), 480, 320, ["low_resolution"]],
+    ["several problems at once", flat(240), 300, 300, ["too_bright", "blurry", "low_resolution"]],
+  ])("flags %s", (_, pixels, width, height, issues) => {
+    expect(analyzeImageData(pixels, width, height).issues).toEqual(issues);
+  });
+
+  it("reports exposure and sharpness measurements", () => {
+    // Every interior pixel of the checkerboard has a Laplacian of ±4 × 56
+    expect(analyzeImageData(checkerboard(100, 156), 1280, 960)).toEqual({
+      width: 1280,
+      height: 960,
+      brightness: 128,
+      darkFraction: 0,
+      brightFraction: 0,
+      sharpness: 224 * 224,
+      issues: [],
+    });
+  });
+
+  it("counts near-black and blown-out pixels", () => {
+    // Top half black, bottom half white
+    const quality = analyzeImageData(image((_, y) => (y < SIZE / 2 ? 0 : 255)), 1280, 960);
+    expect(quality).toMatchObject({ darkFraction: 0.5, brightFraction: 0.5, brightness: 128 });
+    expect(quality.issues).toContain("too_bright");
+  });
+});
@@ -0,0 +1,129 @@
+import { PhotoType } from "@/components/PhotoStepper";
+
+// On-device photo quality checks, run on every capture before it can be used
+
+export type QualityIssue = 'mostly_black' | 'too_dark' | 'too_bright' | 'blurry' | 'low_resolution';
+
+export interface PhotoQuality {
+  width: number;
+  height: number;
+  // Mean luma, 0-255
+  brightness: number;
+  // Fraction of pixels that are near-black / blown out
+  darkFraction: number;
+  brightFraction: number;
+  // Variance of the Laplacian on a downscaled grayscale copy; higher is sharper
+  sharpness: number;
+  issues: QualityIssue[];
+}
+
+export const QUALITY_ISSUE_MESSAGES: Record<QualityIssue, string> = {
+  mostly_black: "The photo is almost completely black",
+  too_dark: "The photo is too dark — move towards a light source",
+  too_bright: "The photo is overexposed — avoid direct light behind or on you",
+  blurry: "The photo looks blurry — hold still and tap to focus",
+  low_resolution: "The photo resolution is too low",
+};
+
+// Analysis runs on a copy at most this wide; thresholds below are tuned for it
+const ANALYSIS_WIDTH = 320;
+const MIN_SHORT_SIDE = 360;
+const DARK_LUMA = 16;
+const BRIGHT_LUMA = 250;
+const MOSTLY_BLACK_FRACTION = 0.85;
+const MIN_BRIGHTNESS = 50;
+const MAX_BRIGHTNESS = 215;
+const MAX_BRIGHT_FRACTION = 0.35;
+const MIN_SHARPNESS = 60;
+
+function toGrayscale(imageData: ImageData): Float32Array {
+  const { data, width, height } = imageData;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+// Variance of the 4-neighbour Laplacian
+function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+// Score already-decoded pixels. `sourceWidth`/`sourceHeight` are the full photo dimensions.
+export function analyzeImageData(imageData: ImageData, sourceWidth: number, sourceHeight: number): PhotoQuality {
+  const gray = toGrayscale(imageData);
+
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  for (let i = 0; i < gray.length; i++) {
+    total += gray[i];
+    if (gray[i] <= DARK_LUMA) dark++;
+    if (gray[i] >= BRIGHT_LUMA) bright++;
+  }
+
+  const pixels = Math.max(1, gray.length);
+  const brightness = total / pixels;
+  const darkFraction = dark / pixels;
+  const brightFraction = bright / pixels;
+  const sharpness = laplacianVariance(gray, imageData.width, imageData.height);
+
+  const issues: QualityIssue[] = [];
+  if (darkFraction >= MOSTLY_BLACK_FRACTION) {
+    issues.push('mostly_black');
+  } else if (brightness < MIN_BRIGHTNESS) {
+    issues.push('too_dark');
+  }
+  if (brightness > MAX_BRIGHTNESS || brightFraction > MAX_BRIGHT_FRACTION) {
+    issues.push('too_bright');
+  }
+  // A black frame has no detail to judge sharpness by
+  if (!issues.includes('mostly_black') && sharpness < MIN_SHARPNESS) {
+    issues.push('blurry');
+  }
+  if (Math.min(sourceWidth, sourceHeight) < MIN_SHORT_SIDE) {
+    issues.push('low_resolution');
+  }
+
+  return {
+    width: sourceWidth,
+    height: sourceHeight,
+    brightness: Math.round(brightness),
+    darkFraction: Math.round(darkFraction * 1000) / 1000,
+    brightFraction: Math.round(brightFraction * 1000) / 1000,
+    sharpness: Math.round(sharpness),
+    issues,
+  };
+}
+
+// Score anything drawable (video frame, canvas, image)
+export function assessSource(source: CanvasImageSource, sourceWidth: number, sourceHeight: number): PhotoQuality {
+  const scale = Math.min(1, ANALYSIS_WIDTH / sourceWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return analyzeImageData(ctx.getImageData(0, 0, canvas.width, canvas.height), sourceWidth, sourceHeight);
+}
+
+// Quality of each captured angle, stored alongside the photos
+export type PhotoQualityMap = Partial<Record<PhotoType, PhotoQuality>>;
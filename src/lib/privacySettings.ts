@@ -0,0 +1,19 @@
+// Device-level privacy preferences, kept in localStorage
+const BLUR_FACE_KEY = 'hairline_blur_face';
+
+// Blur the eyes and everything below them in uploads; on unless the user turned it off
+export function getBlurFace(): boolean {
+  try {
+    return localStorage.getItem(BLUR_FACE_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+export function setBlurFace(value: boolean): void {
+  try {
+    localStorage.setItem(BLUR_FACE_KEY, String(value));
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,131 @@
+import { AnalysisResult } from "@/types/analysis";
+import { CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { QuestionnaireData } from "@/components/Questionnaire";
+import { PhotoQualityMap } from "@/lib/photoQuality";
+import { HairlineCropMap } from "@/lib/hairlineCrop";
+import { FramingMatchMap } from "@/lib/framingMatch";
+import { CAPTURE_PROTOCOL, emptyPhotos } from "@/lib/captureProtocol";
+import { loadImage } from "@/lib/loadImage";
+
+// Scan history lives only on this device, in IndexedDB
+const DB_NAME = "hairlinescan";
+const DB_VERSION = 1;
+const STORE = "scans";
+const THUMBNAIL_WIDTH = 480;
+
+export interface StoredScan {
+  id: string;
+  createdAt: number;
+  // Downscaled copies of the captured photos
+  photos: CapturedPhotos;
+  questionnaire: QuestionnaireData;
+  // On-device quality checks of the full-resolution captures; absent on older scans
+  quality?: PhotoQualityMap;
+  // Region of each photo that was uploaded; absent for uncropped angles and older scans
+  crops?: HairlineCropMap;
+  // How closely each angle repeated the previous scan's framing; absent without a previous photo
+  framing?: FramingMatchMap;
+  result: AnalysisResult;
+  // Result was the opt-in demo, not a real analysis
+  usedFallback: boolean;
+  // Photos are stored as the camera saw them. Absent on older scans, whose front camera
+  // captures were mirrored.
+  unmirrored?: boolean;
+}
+
+export type NewScan = Omit<StoredScan, "id" | "createdAt">;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open scan history"));
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// Run one request in its own transaction and resolve with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Scan history transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Scan history transaction aborted"));
+  });
+}
+
+// Downscale a photo for storage
+export async function createThumbnail(dataUrl: string, maxWidth: number = THUMBNAIL_WIDTH): Promise<string> {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxWidth / img.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
+
+export async function saveScan(scan: NewScan): Promise<StoredScan> {
+  const thumbnails = emptyPhotos();
+  for (const { id } of CAPTURE_PROTOCOL) {
+    const photo = scan.photos[id];
+    thumbnails[id] = photo ? await createThumbnail(photo) : null;
+  }
+
+  const stored: StoredScan = {
+    ...scan,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    photos: thumbnails,
+  };
+
+  await withStore("readwrite", store => store.put(stored));
+  return stored;
+}
+
+// Newest first
+export async function listScans(): Promise<StoredScan[]> {
+  const scans = await withStore<StoredScan[]>("readonly", store => store.getAll());
+  return scans.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getScan(id: string): Promise<StoredScan | null> {
+  const scan = await withStore<StoredScan | undefined>("readonly", store => store.get(id));
+  return scan ?? null;
+}
+
+export async function deleteScan(id: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+}
+
+export async function clearScans(): Promise<void> {
+  await withStore("readwrite", store => store.clear());
+}
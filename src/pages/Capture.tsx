@@ -0,0 +1,41 @@
+import { useNavigate } from "react-router-dom";
+import { CaptureScreen, CapturedPhotos } from "@/components/screens/CaptureScreen";
+import { QuestionnaireData } from "@/components/Questionnaire";
+import { useScanFlow } from "@/hooks/useScanFlow";
+import { PhotoQualityMap } from "@/lib/photoQuality";
+import { FramingMatchMap } from "@/lib/framingMatch";
+
+const Capture = () => {
+  const navigate = useNavigate();
+  const { photos, questionnaire, quality, framing, setCapture, reset } = useScanFlow();
+
+  const handleAnalyze = (
+    nextPhotos: CapturedPhotos,
+    nextQuestionnaire: QuestionnaireData,
+    nextQuality: PhotoQualityMap,
+    nextFraming: FramingMatchMap
+  ) => {
+    setCapture(nextPhotos, nextQuestionnaire, nextQuality, nextFraming);
+    navigate("/scan");
+  };
+
+  const handleCancel = () => {
+    reset();
+    navigate("/", { replace: true });
+  };
+
+  return (
+    <main className="min-h-screen">
+      <CaptureScreen
+        onAnalyze={handleAnalyze}
+        onCancel={handleCancel}
+        initialPhotos={photos}
+        initialQuestionnaire={questionnaire}
+        initialQuality={quality}
+        initialFraming={framing}
+      />
+    </main>
+  );
+};
+
+export default Capture;
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { CompareScreen } from "@/components/screens/CompareScreen";
+import { Button } from "@/components/ui/button";
+import { StoredScan, getScan } from "@/lib/scanHistory";
+
+const Compare = () => {
+  const { beforeId, afterId } = useParams<{ beforeId: string; afterId: string }>();
+  const navigate = useNavigate();
+  const [scans, setScans] = useState<{ before: StoredScan; after: StoredScan } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([getScan(beforeId!), getScan(afterId!)])
+      .then(([before, after]) => {
+        if (!cancelled) setScans(before && after ? { before, after } : null);
+      })
+      .catch(() => {
+        if (!cancelled) setScans(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeId, afterId]);
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <span className="inline-block w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </main>
+    );
+  }
+
+  if (!scans) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center p-6 text-center">
+        <p className="text-muted-foreground mb-4">One of these scans is no longer on this device.</p>
+        <Button variant="scanner" onClick={() => navigate("/history", { replace: true })}>
+          View History
+        </Button>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <CompareScreen before={scans.before} after={scans.after} onBack={() => navigate("/history")} />
+    </main>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,18 @@
+import { useNavigate } from "react-router-dom";
+import { HistoryScreen } from "@/components/screens/HistoryScreen";
+
+const History = () => {
+  const navigate = useNavigate();
+
+  return (
+    <main className="min-h-screen">
+      <HistoryScreen
+        onOpenScan={scan => navigate(`/results/${scan.id}`, { state: { from: "history" } })}
+        onCompare={(before, after) => navigate(`/compare/${before.id}/${after.id}`)}
+        onBack={() => navigate("/")}
+      />
+    </main>
+  );
+};
+
+export default History;
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { ResultsScreen } from "@/components/screens/ResultsScreen";
+import { Button } from "@/components/ui/button";
+import { useScanFlow } from "@/hooks/useScanFlow";
+import { StoredScan, getScan } from "@/lib/scanHistory";
+
+const Results = () => {
+  const { scanId } = useParams<{ scanId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { lastScan, reset } = useScanFlow();
+  const [scan, setScan] = useState<StoredScan | null>(lastScan?.id === scanId ? lastScan : null);
+  const [isLoading, setIsLoading] = useState(!scan);
+
+  const cameFromHistory = (location.state as { from?: string } | null)?.from === "history";
+
+  useEffect(() => {
+    if (!scanId) return;
+    if (lastScan?.id === scanId) {
+      setScan(lastScan);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getScan(scanId)
+      .then(found => {
+        if (!cancelled) setScan(found);
+      })
+      .catch(() => {
+        if (!cancelled) setScan(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId, lastScan]);
+
+  const handleRestart = () => {
+    reset();
+    navigate("/");
+  };
+
+  // This session's capture is still in the flow store, so single angles can be retaken
+  const handleRetake = () => {
+    navigate("/capture");
+  };
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <span className="inline-block w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </main>
+    );
+  }
+
+  if (!scan) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center p-6 text-center">
+        <p className="text-muted-foreground mb-4">This scan is no longer on this device.</p>
+        <Button variant="scanner" onClick={() => navigate("/history", { replace: true })}>
+          View History
+        </Button>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <ResultsScreen
+        score={scan.result.score}
+        analysis={scan.result}
+        isDemo={scan.usedFallback}
+        onRestart={handleRestart}
+        onRetake={cameFromHistory ? undefined : handleRetake}
+        onBack={cameFromHistory ? () => navigate(-1) : undefined}
+        photo={scan.photos.front}
+      />
+    </main>
+  );
+};
+
+export default Results;
@@ -0,0 +1,73 @@
+import { useRef } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { ScanningScreen } from "@/components/screens/ScanningScreen";
+import { AnalysisResult } from "@/types/analysis";
+import { useScanFlow } from "@/hooks/useScanFlow";
+import { StoredScan, saveScan } from "@/lib/scanHistory";
+import { HairlineCropMap } from "@/lib/hairlineCrop";
+import { capturedAngles } from "@/lib/captureProtocol";
+import { toast } from "sonner";
+
+const Scan = () => {
+  const navigate = useNavigate();
+  const { photos, questionnaire, quality, framing, setLastScan } = useScanFlow();
+  const completingRef = useRef(false);
+
+  // Nothing to analyze (direct visit or refresh after the session ended)
+  if (!photos || capturedAngles(photos).length === 0) {
+    return <Navigate to="/capture" replace />;
+  }
+
+  const handleComplete = async (
+    _score: number,
+    result: AnalysisResult,
+    isDemo: boolean,
+    crops: HairlineCropMap | null
+  ) => {
+    if (completingRef.current) return;
+    completingRef.current = true;
+
+    const scan = {
+      photos,
+      questionnaire: questionnaire ?? {
+        ageRange: '',
+        timeframe: '',
+        familyHistory: '',
+        shedding: '',
+        scalpIssues: ''
+      },
+      quality: quality ?? {},
+      framing: framing ?? {},
+      crops: crops ?? {},
+      result,
+      usedFallback: isDemo,
+      unmirrored: true,
+    };
+
+    let stored: StoredScan;
+    try {
+      stored = await saveScan(scan);
+    } catch {
+      toast.error('Could not save this scan to history');
+      stored = { ...scan, id: crypto.randomUUID(), createdAt: Date.now() };
+    }
+
+    // Keep full-resolution photos for the results screen; history holds thumbnails
+    setLastScan({ ...stored, photos });
+    // Replace /scan so Back from results does not re-run the analysis
+    navigate(`/results/${stored.id}`, { replace: true });
+  };
+
+  return (
+    <main className="min-h-screen">
+      <ScanningScreen
+        onComplete={handleComplete}
+        onCancel={() => navigate("/capture", { replace: true })}
+        photos={photos}
+        questionnaire={questionnaire ?? undefined}
+      />
+    </main>
+  );
+};
+
+export default Scan;
@@ -1,17 +1,19 @@
-export interface AnalysisResult {
-  score: number;
-  confidence: number;
-  summary: string;
-  observations: string[];
-  likely_patterns: string[];
-  general_options: {
-    title: string;
-    bullets: string[];
-  }[];
-  when_to_see_a_dermatologist: string[];
-  disclaimer: string;
-  // Personalized hairline analysis
-  hairline_type?: string;
-  hairline_description?: string;
-  personalized_tips?: string[];
+import type { PhotoType } from "@/components/PhotoStepper";
+import type {
+  AnalysisResultData,
+  AngleObservationData,
+} from "../../supabase/functions/_shared/analysisSchema.ts";
+
+// The result shape is declared once, as a zod schema shared with the edge function
+export { AnalysisResultSchema, IMAGE_QUALITY_REASONS, METRIC_KEYS } from "../../supabase/functions/_shared/analysisSchema.ts";
+export type { ImageQuality, ImageQualityReason, MetricKey, MetricScore } from "../../supabase/functions/_shared/analysisSchema.ts";
+
+export interface AngleObservation extends AngleObservationData {
+  angle: PhotoType;
+}
+
+export interface AnalysisResult extends Omit<AnalysisResultData, "angles_analyzed" | "angle_observations"> {
+  // Multi-angle analysis
+  angles_analyzed?: PhotoType[];
+  angle_observations?: AngleObservation[];
 }
@@ -0,0 +1,103 @@
+// Shared between the analyze_hairline edge function (Deno, via its deno.json
+// import map) and the web client (src/types/analysis.ts). Keep it dependency-free
+// apart from zod so both runtimes can load it.
+import { z } from "zod";
+
+// Sub-scores shown on the results screen, 0-100 with the model's own confidence
+export const METRIC_KEYS = ["density", "hairline", "thickness", "scalp", "potential"] as const;
+
+export const MetricScoreSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(1),
+});
+
+export const MetricsSchema = z.object({
+  density: MetricScoreSchema,
+  hairline: MetricScoreSchema,
+  thickness: MetricScoreSchema,
+  scalp: MetricScoreSchema,
+  potential: MetricScoreSchema,
+});
+
+// Why the photos could not be analyzed; the client maps each to retake guidance
+export const IMAGE_QUALITY_REASONS = [
+  "no_face",
+  "hairline_not_visible",
+  "too_dark",
+  "blurry",
+  "multiple_people",
+] as const;
+
+export const ImageQualitySchema = z.object({
+  usable: z.boolean(),
+  reasons: z.array(z.enum(IMAGE_QUALITY_REASONS)).max(IMAGE_QUALITY_REASONS.length),
+}).refine(q => q.usable || q.reasons.length > 0, {
+  message: "reasons must list at least one reason when usable is false",
+  path: ["reasons"],
+});
+
+// What the model itself must return (the "mini" JSON)
+export const ModelOutputSchema = z.object({
+  score: z.number().min(0).max(10),
+  confidence: z.number().min(0).max(1),
+  summary: z.string().trim().min(1).max(200),
+  tags: z.array(z.string().trim().min(1).max(40)).min(1).max(3),
+  hairline_type: z.string().trim().min(1).max(40),
+  hairline_description: z.string().trim().min(1).max(300),
+  personalized_tips: z.array(z.string().trim().min(1).max(200)).min(1).max(5),
+  angles: z.array(z.object({
+    angle: z.string(),
+    note: z.string().trim().min(1).max(160),
+  })),
+  metrics: MetricsSchema,
+  image_quality: ImageQualitySchema,
+});
+
+export const AngleObservationSchema = z.object({
+  angle: z.string(),
+  label: z.string(),
+  observation: z.string(),
+});
+
+// What the edge function returns to the client
+export const AnalysisResultSchema = z.object({
+  score: z.number().min(0).max(10),
+  confidence: z.number().min(0).max(1),
+  summary: z.string(),
+  observations: z.array(z.string()),
+  likely_patterns: z.array(z.string()),
+  general_options: z.array(z.object({
+    title: z.string(),
+    bullets: z.array(z.string()),
+  })),
+  when_to_see_a_dermatologist: z.array(z.string()),
+  disclaimer: z.string(),
+  // Personalized hairline analysis
+  hairline_type: z.string().optional(),
+  hairline_description: z.string().optional(),
+  personalized_tips: z.array(z.string()).optional(),
+  // Multi-angle analysis
+  angles_analyzed: z.array(z.string()).optional(),
+  angle_observations: z.array(AngleObservationSchema).optional(),
+  // Per-metric sub-scores; absent on results from before the model returned them
+  metrics: MetricsSchema.partial().optional(),
+  // Whether the photos were usable; absent on results from before the model reported it
+  image_quality: ImageQualitySchema.optional(),
+  // "<provider>/<model>" that produced this result
+  model: z.string().optional(),
+});
+
+export type ModelOutput = z.infer<typeof ModelOutputSchema>;
+export type MetricKey = typeof METRIC_KEYS[number];
+export type MetricScore = z.infer<typeof MetricScoreSchema>;
+export type ImageQualityReason = typeof IMAGE_QUALITY_REASONS[number];
+export type ImageQuality = z.infer<typeof ImageQualitySchema>;
+export type AngleObservationData = z.infer<typeof AngleObservationSchema>;
+export type AnalysisResultData = z.infer<typeof AnalysisResultSchema>;
+
+// Flatten zod issues into short "path: message" strings for logs and re-ask prompts
+export function describeIssues(error: z.ZodError): string[] {
+  return error.issues.slice(0, 10).map(issue =>
+    `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`
+  );
+}
@@ -0,0 +1,87 @@
+// The capture protocol: which angles the app asks for, in order. Shared between
+// the web client and the analyze_hairline edge function so both iterate over the
+// same list. Dependency-free so either runtime can load it.
+
+export const ANGLE_IDS = ["front", "left", "right", "crown", "top"] as const;
+export type AngleId = typeof ANGLE_IDS[number];
+
+// Outline drawn over the preview for the angle
+export type GuideOverlay = "face_front" | "face_left" | "face_right" | "crown" | "top";
+
+export interface CaptureAngle {
+  id: AngleId;
+  // Shown in the stepper and on the preview
+  label: string;
+  // One line telling the user how to frame the shot
+  instruction: string;
+  // How the angle is described to the model
+  modelLabel: string;
+  guide: GuideOverlay;
+  // The scan can't be submitted until every required angle is captured
+  required: boolean;
+  // Camera to start with; the user can still switch
+  facing: "user" | "environment";
+  // Hard to take alone; the instruction suggests asking someone to help
+  needsHelper: boolean;
+}
+
+export const CAPTURE_PROTOCOL: readonly CaptureAngle[] = [
+  {
+    id: "front",
+    label: "Front Hairline",
+    instruction: "Face the camera with your hairline in view",
+    modelLabel: "Front hairline",
+    guide: "face_front",
+    required: true,
+    facing: "user",
+    needsHelper: false,
+  },
+  {
+    id: "left",
+    label: "Left Temple",
+    instruction: "Turn to show your left temple",
+    modelLabel: "Left temple",
+    guide: "face_left",
+    required: false,
+    facing: "user",
+    needsHelper: false,
+  },
+  {
+    id: "right",
+    label: "Right Temple",
+    instruction: "Turn to show your right temple",
+    modelLabel: "Right temple",
+    guide: "face_right",
+    required: false,
+    facing: "user",
+    needsHelper: false,
+  },
+  {
+    id: "crown",
+    label: "Crown",
+    instruction: "Ask someone to photograph the back of your head from above",
+    modelLabel: "Crown (back of the head, from above; no face visible)",
+    guide: "crown",
+    required: false,
+    facing: "environment",
+    needsHelper: true,
+  },
+  {
+    id: "top",
+    label: "Top of Head",
+    instruction: "Ask someone to photograph straight down onto your part line",
+    modelLabel: "Top of head (looking straight down; no face visible)",
+    guide: "top",
+    required: false,
+    facing: "environment",
+    needsHelper: true,
+  },
+];
+
+export function getCaptureAngle(id: AngleId): CaptureAngle {
+  return CAPTURE_PROTOCOL.find(angle => angle.id === id)!;
+}
+
+export function isAngleId(value: unknown): value is AngleId {
+  return typeof value === "string" && (ANGLE_IDS as readonly string[]).includes(value);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { ImageRejectedError, sanitizeDataUrl } from "./imageSanitize.ts";
+
+// Hand-built fixtures: just enough structure for the parsers, no real pixel data
+
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+const u16be = (n: number) => [n >> 8, n & 0xff];
+const u32be = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+const jpegSegment = (marker: number, payload: number[]) => [0xff, marker, ...u16be(payload.length + 2), ...payload];
+const APP0_JFIF = jpegSegment(0xe0, [...ascii("JFIF"), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const APP1_EXIF = jpegSegment(0xe1, [...ascii("Exif"), 0, 0, ...ascii("MM"), 0, 42, ...ascii("GPS 51.5N 0.1W")]);
+const APP1_XMP = jpegSegment(0xe1, [...ascii("http://ns.adobe.com/xap/1.0/"), 0, ...ascii("<x:xmpmeta>owner</x:xmpmeta>")]);
+const COMMENT = jpegSegment(0xfe, ascii("taken at home"));
+const DQT = jpegSegment(0xdb, [0, ...new Array(64).fill(1)]);
+const sof0 = (width: number, height: number) => jpegSegment(0xc0, [8, ...u16be(height), ...u16be(width), 1, 1, 0x11, 0]);
+const SOS = jpegSegment(0xda, [1, 1, 0, 0, 0x3f, 0]);
+// Entropy-coded data with byte stuffing (FF 00) and a restart marker (FF D0)
+const SCAN_DATA = [0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+
+const pngChunk = (type: string, data: number[]) => [...u32be(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const pngIhdr = (width: number, height: number) => pngChunk("IHDR", [...u32be(width), ...u32be(height), 8, 2, 0, 0, 0]);
+
+const webpChunk = (type: string, data: number[]) => [...ascii(type), ...u32le(data.length), ...data, ...(data.length & 1 ? [0] : [])];
+const webp = (...chunks: number[][]) => {
+  const body = chunks.flat();
+  return [...ascii("RIFF"), ...u32le(body.length + 4), ...ascii("WEBP"), ...body];
+};
+// VP8X with the EXIF flag set, for a 2×3 canvas
+const VP8X_WITH_EXIF = webpChunk("VP8X", [0x08, 0, 0, 0, 1, 0, 0, 2, 0, 0]);
+
+const toDataUrl = (mimeType: string, bytes: number[]) =>
+  `data:${mimeType};base64,${btoa(String.fromCharCode(...bytes))}`;
+const fromBase64 = (data: string) => Array.from(atob(data), c => c.charCodeAt(0));
+
+function rejectionCode(dataUrl: string): string | null {
+  try {
+    sanitizeDataUrl(dataUrl);
+    return null;
+  } catch (e) {
+    return e instanceof ImageRejectedError ? e.code : "unexpected error";
+  }
+}
+
+describe("sanitizeDataUrl: JPEG", () => {
+  it("drops EXIF, XMP and comments and keeps what decoding needs", () => {
+    const input = [...SOI, ...APP0_JFIF, ...APP1_EXIF, ...APP1_XMP, ...COMMENT, ...DQT, ...sof0(640, 480), ...SOS, ...SCAN_DATA, ...EOI];
+
+    const result = sanitizeDataUrl(toDataUrl("image/jpeg", input));
+
+    expect(result).toMatchObject({ mimeType: "image/jpeg", width: 640, height: 480 });
+    expect(fromBase64(result.data)).toEqual([...SOI, ...APP0_JFIF, ...DQT, ...sof0(640, 480), ...SOS, ...SCAN_DATA, ...EOI]);
+  });
+
+  it("drops everything after the end-of-image marker", () => {
+    // e.g. an MPF secondary image carrying its own EXIF
+    const trailing = [...SOI, ...APP1_EXIF, ...sof0(8, 8), ...EOI];
+    const input = [...SOI, ...DQT, ...sof0(16, 16), ...SOS, ...SCAN_DATA, ...EOI, ...trailing];
+
+    const result = sanitizeDataUrl(toDataUrl("image/jpeg", input));
+
+    expect(fromBase64(result.data)).toEqual([...SOI, ...DQT, ...sof0(16, 16), ...SOS, ...SCAN_DATA, ...EOI]);
+  });
+
+  it.each([
+    ["a segment running past the end", [...SOI, ...APP0_JFIF, 0xff, 0xe1, 0x40, 0x00, ...ascii("Exif")]],
+    ["a marker cut off after its first byte", [...SOI, ...DQT, 0xff]],
+    ["a segment length shorter than its header", [...SOI, 0xff, 0xe1, 0x00, 0x01, ...sof0(4, 4), ...EOI]],
+    ["garbage where a marker should be", [...SOI, ...DQT, 0x00, 0x11, ...sof0(4, 4), ...EOI]],
+    ["no frame header", [...SOI, ...APP0_JFIF, ...DQT, ...SOS, ...SCAN_DATA, ...EOI]],
+  ])("rejects %s", (_, input) => {
+    expect(rejectionCode(toDataUrl("image/jpeg", input))).toBe("invalid_image");
+  });
+
+  it("rejects frames larger than the dimension limit", () => {
+    const input = [...SOI, ...sof0(5000, 100), ...SOS, ...SCAN_DATA, ...EOI];
+    expect(rejectionCode(toDataUrl("image/jpeg", input))).toBe("image_dimensions_too_large");
+  });
+});
+
+describe("sanitizeDataUrl: PNG", () => {
+  it("keeps only rendering chunks", () => {
+    const idat = pngChunk("IDAT", [1, 2, 3]);
+    const iend = pngChunk("IEND", []);
+    const input = [
+      ...PNG_SIGNATURE,
+      ...pngIhdr(3, 2),
+      ...pngChunk("tEXt", ascii("Author\0someone")),
+      ...pngChunk("eXIf", ascii("MM")),
+      ...idat,
+      ...iend,
+      ...ascii("trailing"),
+    ];
+
+    const result = sanitizeDataUrl(toDataUrl("image/png", input));
+
+    expect(result).toMatchObject({ mimeType: "image/png", width: 3, height: 2 });
+    expect(fromBase64(result.data)).toEqual([...PNG_SIGNATURE, ...pngIhdr(3, 2), ...idat, ...iend]);
+  });
+
+  it("rejects a truncated chunk", () => {
+    const input = [...PNG_SIGNATURE, ...pngIhdr(3, 2), ...u32be(100), ...ascii("IDAT"), 1, 2, 3, 0, 0, 0, 0];
+    expect(rejectionCode(toDataUrl("image/png", input))).toBe("invalid_image");
+  });
+});
+
+describe("sanitizeDataUrl: WebP", () => {
+  it("drops EXIF and XMP chunks and clears their VP8X flags", () => {
+    const vp8l = webpChunk("VP8L", [0x2f, 1, 0x80, 0, 0]);
+    const input = webp(VP8X_WITH_EXIF, vp8l, webpChunk("EXIF", ascii("MM")), webpChunk("XMP ", ascii("<x/>")));
+
+    const result = sanitizeDataUrl(toDataUrl("image/webp", input));
+
+    expect(result).toMatchObject({ mimeType: "image/webp", width: 2, height: 3 });
+    const clearedVp8x = [...VP8X_WITH_EXIF];
+    clearedVp8x[8] = 0;
+    expect(fromBase64(result.data)).toEqual(webp(clearedVp8x, vp8l));
+  });
+
+  it("rejects a chunk running past the end", () => {
+    const input = webp([...ascii("VP8X"), ...u32le(64), 0, 0]);
+    expect(rejectionCode(toDataUrl("image/webp", input))).toBe("invalid_image");
+  });
+});
+
+describe("sanitizeDataUrl: type checks", () => {
+  const jpeg = [...SOI, ...sof0(4, 4), ...EOI];
+
+  it.each([
+    ["not a data URL", "https://example.com/photo.jpg", "invalid_image"],
+    ["invalid base64", "data:image/jpeg;base64,@@@@", "invalid_image"],
+    ["an unsupported format", toDataUrl("image/gif", ascii("GIF89a")), "unsupported_image_type"],
+    ["a mislabeled type", toDataUrl("image/png", jpeg), "image_type_mismatch"],
+  ])("rejects %s", (_, dataUrl, code) => {
+    expect(rejectionCode(dataUrl)).toBe(code);
+  });
+});
@@ -0,0 +1,249 @@
+// Upload checks for analyze_hairline: confirm each image really is the type it
+// claims, bound its size, and drop embedded metadata before it reaches a provider.
+
+export type ImageMimeType = "image/jpeg" | "image/png" | "image/webp";
+
+export type ImageRejectCode =
+  | "invalid_image"
+  | "unsupported_image_type"
+  | "image_type_mismatch"
+  | "image_too_large"
+  | "image_dimensions_too_large";
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+export const MAX_IMAGE_DIMENSION = 4096;
+
+export interface SanitizedImage {
+  mimeType: ImageMimeType;
+  data: string; // base64, no data: prefix
+  width: number;
+  height: number;
+}
+
+export class ImageRejectedError extends Error {
+  code: ImageRejectCode;
+  status: number;
+
+  constructor(code: ImageRejectCode, message: string, status = 400) {
+    super(message);
+    this.name = "ImageRejectedError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const u16be = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+const u32be = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+const u24le = (b: Uint8Array, o: number) => b[o] | (b[o + 1] << 8) | (b[o + 2] << 16);
+const u32le = (b: Uint8Array, o: number) => (b[o] | (b[o + 1] << 8) | (b[o + 2] << 16) | (b[o + 3] << 24)) >>> 0;
+
+// Identify the format from its signature, ignoring whatever the client declared
+export function sniffImageType(bytes: Uint8Array): ImageMimeType | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes.length >= 8 && u32be(bytes, 0) === 0x89504e47 && u32be(bytes, 4) === 0x0d0a1a0a) return "image/png";
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "image/webp";
+  return null;
+}
+
+// JPEG: keep JFIF (APP0) and Adobe (APP14, needed for color decoding); drop EXIF/XMP,
+// ICC, IPTC, comments and every other APPn segment
+function stripJpeg(bytes: Uint8Array): { bytes: Uint8Array; width: number; height: number } {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let width = 0;
+  let height = 0;
+  let offset = 2;
+
+  while (offset + 2 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new ImageRejectedError("invalid_image", "Corrupt JPEG image");
+    const marker = bytes[offset + 1];
+    // Fill bytes may pad the gap between segments
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // End of image: anything after it (MPF secondary images with their own EXIF,
+    // Motion Photo video) is dropped
+    if (marker === 0xd9) {
+      parts.push(bytes.subarray(offset, offset + 2));
+      break;
+    }
+    if (offset + 4 > bytes.length) throw new ImageRejectedError("invalid_image", "Corrupt JPEG image");
+    const size = u16be(bytes, offset + 2);
+    const end = offset + 2 + size;
+    if (size < 2 || end > bytes.length) throw new ImageRejectedError("invalid_image", "Corrupt JPEG image");
+
+    // SOFn (excluding DHT, JPG and DAC, which share the range) carries the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      height = u16be(bytes, offset + 5);
+      width = u16be(bytes, offset + 7);
+    }
+
+    // Start of scan: entropy-coded data follows up to the next marker other than byte
+    // stuffing (FF 00) or restarts (FF D0-D7). Progressive images have several scans.
+    if (marker === 0xda) {
+      let scanEnd = end;
+      while (scanEnd + 1 < bytes.length) {
+        const next = bytes[scanEnd + 1];
+        if (bytes[scanEnd] === 0xff && next !== 0x00 && next !== 0xff && (next < 0xd0 || next > 0xd7)) break;
+        scanEnd++;
+      }
+      if (scanEnd + 1 >= bytes.length) scanEnd = bytes.length;
+      parts.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+      continue;
+    }
+
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef && marker !== 0xee) || marker === 0xfe;
+    if (!isMetadata) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  if (!width || !height) throw new ImageRejectedError("invalid_image", "Corrupt JPEG image");
+  return { bytes: concat(parts), width, height };
+}
+
+// PNG: keep only the chunks needed to render the image
+const PNG_KEEP_CHUNKS = new Set(["IHDR", "PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "IDAT", "IEND"]);
+
+function stripPng(bytes: Uint8Array): { bytes: Uint8Array; width: number; height: number } {
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let width = 0;
+  let height = 0;
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = u32be(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new ImageRejectedError("invalid_image", "Corrupt PNG image");
+
+    if (type === "IHDR") {
+      width = u32be(bytes, offset + 8);
+      height = u32be(bytes, offset + 12);
+    }
+    if (PNG_KEEP_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === "IEND") break;
+  }
+
+  if (!width || !height) throw new ImageRejectedError("invalid_image", "Corrupt PNG image");
+  return { bytes: concat(parts), width, height };
+}
+
+// WebP: drop EXIF, XMP and ICCP chunks and clear their flags in the VP8X header
+const WEBP_DROP_CHUNKS = new Set(["EXIF", "XMP ", "ICCP"]);
+const VP8X_METADATA_FLAGS = 0x20 | 0x08 | 0x04; // ICC, EXIF, XMP
+
+function stripWebp(bytes: Uint8Array): { bytes: Uint8Array; width: number; height: number } {
+  const chunks: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = u32le(bytes, offset + 4);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size & 1);
+    if (offset + 8 + size > bytes.length) throw new ImageRejectedError("invalid_image", "Corrupt WebP image");
+    const data = offset + 8;
+
+    if (type === "VP8X") {
+      width = u24le(bytes, data + 4) + 1;
+      height = u24le(bytes, data + 7) + 1;
+    } else if (type === "VP8 " && !width) {
+      width = (bytes[data + 6] | (bytes[data + 7] << 8)) & 0x3fff;
+      height = (bytes[data + 8] | (bytes[data + 9] << 8)) & 0x3fff;
+    } else if (type === "VP8L" && !width) {
+      width = 1 + (bytes[data + 1] | ((bytes[data + 2] & 0x3f) << 8));
+      height = 1 + ((bytes[data + 2] >> 6) | (bytes[data + 3] << 2) | ((bytes[data + 4] & 0x0f) << 10));
+    }
+
+    if (!WEBP_DROP_CHUNKS.has(type)) {
+      const chunk = bytes.slice(offset, Math.min(end, bytes.length));
+      if (type === "VP8X") chunk[8] &= ~VP8X_METADATA_FLAGS;
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  if (!width || !height) throw new ImageRejectedError("invalid_image", "Corrupt WebP image");
+
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return { bytes: concat([header, body]), width, height };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  try {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    throw new ImageRejectedError("invalid_image", "Image data is not valid base64");
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Validate one data URL and return it without metadata; throws ImageRejectedError
+export function sanitizeDataUrl(dataUrl: string): SanitizedImage {
+  const m = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+  if (!m) throw new ImageRejectedError("invalid_image", "Invalid image data URL");
+  const declared = m[1].toLowerCase();
+
+  // Cheap size check before decoding (base64 is 4 chars per 3 bytes)
+  if (Math.floor(m[2].length * 3 / 4) > MAX_IMAGE_BYTES) {
+    throw new ImageRejectedError("image_too_large", `Each photo must be under ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`, 413);
+  }
+
+  const bytes = decodeBase64(m[2]);
+  const sniffed = sniffImageType(bytes);
+  if (!sniffed) {
+    throw new ImageRejectedError("unsupported_image_type", "Only JPEG, PNG and WebP photos are supported", 415);
+  }
+  if (declared !== sniffed) {
+    throw new ImageRejectedError("image_type_mismatch", `Photo is labeled ${declared} but contains ${sniffed}`);
+  }
+
+  const stripped = sniffed === "image/jpeg" ? stripJpeg(bytes)
+    : sniffed === "image/png" ? stripPng(bytes)
+    : stripWebp(bytes);
+
+  if (stripped.width > MAX_IMAGE_DIMENSION || stripped.height > MAX_IMAGE_DIMENSION) {
+    throw new ImageRejectedError(
+      "image_dimensions_too_large",
+      `Photos must be at most ${MAX_IMAGE_DIMENSION}×${MAX_IMAGE_DIMENSION} pixels`,
+      413,
+    );
+  }
+
+  return {
+    mimeType: sniffed,
+    data: encodeBase64(stripped.bytes),
+    width: stripped.width,
+    height: stripped.height,
+  };
+}
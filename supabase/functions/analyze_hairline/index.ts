@@ -1,4 +1,18 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getProvider, ProviderError, type ModelProvider } from "./providers.ts";
+import { IMAGE_QUALITY_REASONS } from "../_shared/analysisSchema.ts";
+import { CAPTURE_PROTOCOL, getCaptureAngle, isAngleId, type AngleId } from "../_shared/captureProtocol.ts";
+import { ImageRejectedError, sanitizeDataUrl } from "./imageSanitize.ts";
+import { generateModelOutput, ModelReplyError, type ValidationResult } from "./modelOutput.ts";
+import {
+  createBucketKeyHasher,
+  createRateLimitStore,
+  decide,
+  getServiceClient,
+  MemoryRateLimitStore,
+  rateLimitHeaders,
+  type BucketSpec,
+  type RateLimitDecision,
+} from "./rateLimit.ts";
 
 // Allowed origins for CORS
 const ALLOWED_ORIGINS = [
@@ -9,26 +23,70 @@ const ALLOWED_ORIGINS = [
   "https://euztyowduyplbduzcgct.supabase.co", // Supabase project
 ];
 
-// Simple in-memory rate limiting (resets on function cold start)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_MAX = 10;        // Max requests per window
-const RATE_LIMIT_WINDOW = 60000;  // 1 minute window
+// Sliding-window limits. The IP bucket is generous because many users can share one NAT;
+// device and user buckets are the ones that normally bite.
+const RATE_LIMITS = {
+  ip: { limit: 30, windowMs: 10 * 60_000 },
+  device: { limit: 10, windowMs: 10 * 60_000 },
+  user: { limit: 10, windowMs: 10 * 60_000 },
+};
+
+const serviceClient = getServiceClient();
+const rateLimitStore = createRateLimitStore(serviceClient);
+// Used only if the shared store is unreachable, so an outage degrades to per-instance limits
+const fallbackRateLimitStore = new MemoryRateLimitStore();
+// RATE_LIMIT_KEY_SECRET is optional; the service role key is already a server-only secret
+const hashBucketKey = createBucketKeyHasher(
+  Deno.env.get("RATE_LIMIT_KEY_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Verified user id from the bearer token, or null for anonymous callers
+async function resolveUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token || !serviceClient) return null;
+
+  // Cheap pre-check: the anon key has no `sub`, so skip the auth round trip for it
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    if (!payload?.sub) return null;
+  } catch {
+    return null;
+  }
 
-function isRateLimited(identifier: string): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(identifier);
+  const { data, error } = await serviceClient.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+}
+
+async function getRateLimitBuckets(req: Request): Promise<BucketSpec[]> {
+  const clientIP = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+    || req.headers.get("cf-connecting-ip")
+    || "unknown";
+  const buckets: BucketSpec[] = [{ key: await hashBucketKey("ip", clientIP), ...RATE_LIMITS.ip }];
 
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(identifier, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return false;
+  const deviceId = req.headers.get("x-device-id");
+  if (deviceId && DEVICE_ID_PATTERN.test(deviceId)) {
+    buckets.push({ key: await hashBucketKey("device", deviceId), ...RATE_LIMITS.device });
   }
 
-  if (record.count >= RATE_LIMIT_MAX) {
-    return true;
+  const userId = await resolveUserId(req);
+  if (userId) {
+    buckets.push({ key: await hashBucketKey("user", userId), ...RATE_LIMITS.user });
   }
 
-  record.count++;
-  return false;
+  return buckets;
+}
+
+async function checkRateLimit(req: Request): Promise<RateLimitDecision> {
+  const buckets = await getRateLimitBuckets(req);
+  const now = Date.now();
+  try {
+    return decide(await rateLimitStore.hit(buckets, now), now);
+  } catch (e) {
+    console.error("Rate limit store unavailable, using in-memory fallback:", e instanceof Error ? e.message : e);
+    return decide(await fallbackRateLimitStore.hit(buckets, now), now);
+  }
 }
 
 function getCorsHeaders(origin: string | null): Record<string, string> {
@@ -39,38 +97,41 @@ function getCorsHeaders(origin: string | null): Record<string, string> {
 
   return {
     "Access-Control-Allow-Origin": allowedOrigin,
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-device-id",
+    "Access-Control-Expose-Headers": "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
     "Access-Control-Allow-Methods": "POST, OPTIONS",
     "Access-Control-Max-Age": "86400",
   };
 }
 
-const MODEL = "gemini-2.0-flash";
-const GEMINI_ENDPOINT =
-  `https://generativelanguage.googleapis.com/v1beta/models/${MODEL}:generateContent`;
+// Angles the capture flow can send, in the order they are shown to the model
+const ANGLE_LABELS = Object.fromEntries(
+  CAPTURE_PROTOCOL.map(angle => [angle.id, angle.modelLabel]),
+) as Record<AngleId, string>;
+const ANGLE_ORDER: AngleId[] = CAPTURE_PROTOCOL.map(angle => angle.id);
 
-function parseDataUrl(dataUrl: string) {
-  const m = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
-  if (!m) throw new Error("Invalid image data URL");
-  return { mimeType: m[1], data: m[2] };
+interface AnglePhoto {
+  angle: AngleId;
+  dataUrl: string;
 }
 
-function safeJsonParse(text: string) {
-  const t = (text || "")
-    .trim()
-    .replace(/^```json/i, "")
-    .replace(/^```/i, "")
-    .replace(/```$/i, "")
-    .trim();
-
-  try { return JSON.parse(t); } catch {
-    // Fallback: try to find JSON object in text
+// Accepts `{ angle, dataUrl }` entries, or bare data URLs which are labeled by position
+function normalizePhotos(photos: unknown[]): AnglePhoto[] | null {
+  const out: AnglePhoto[] = [];
+  for (let i = 0; i < photos.length; i++) {
+    const p = photos[i];
+    const entry = typeof p === "string"
+      ? { angle: ANGLE_ORDER[i], dataUrl: p }
+      : p && typeof p === "object"
+        ? { angle: String((p as AnglePhoto).angle), dataUrl: (p as AnglePhoto).dataUrl }
+        : null;
+
+    if (!entry || !isAngleId(entry.angle)) return null;
+    if (typeof entry.dataUrl !== "string" || !entry.dataUrl.startsWith("data:image/")) return null;
+    if (out.some(o => o.angle === entry.angle)) return null;
+    out.push({ angle: entry.angle, dataUrl: entry.dataUrl });
   }
-
-  const first = t.indexOf("{");
-  const last = t.lastIndexOf("}");
-  if (first === -1 || last === -1 || last <= first) throw new Error("No JSON object found");
-  return JSON.parse(t.slice(first, last + 1));
+  return out.sort((a, b) => ANGLE_ORDER.indexOf(a.angle) - ANGLE_ORDER.indexOf(b.angle));
 }
 
 const systemText = `
@@ -81,7 +142,7 @@ Return ONLY JSON. No markdown. No extra text.
 Keep it SHORT and FUN.
 `.trim();
 
-serve(async (req) => {
+Deno.serve(async (req) => {
   const origin = req.headers.get("origin");
   const corsHeaders = getCorsHeaders(origin);
 
@@ -89,20 +150,21 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
-  // Get client identifier for rate limiting (use IP or fallback)
-  const clientIP = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
-    || req.headers.get("cf-connecting-ip")
-    || "unknown";
-
-  // Check rate limit
-  if (isRateLimited(clientIP)) {
-    return new Response(JSON.stringify({ error: "Too many requests. Please wait a moment." }), {
-      status: 429,
-      headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "60" },
-    });
-  }
-
   try {
+    // Check rate limit; every response from here on carries the X-RateLimit-* headers
+    const rateLimit = await checkRateLimit(req);
+    Object.assign(corsHeaders, rateLimitHeaders(rateLimit));
+
+    if (!rateLimit.allowed) {
+      return new Response(JSON.stringify({
+        error: "Too many requests. Please wait a moment.",
+        retryAfter: rateLimit.retryAfterSeconds,
+      }), {
+        status: 429,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const { photos, answers } = await req.json();
 
     if (!photos || !Array.isArray(photos) || photos.length === 0) {
@@ -112,28 +174,62 @@ serve(async (req) => {
       });
     }
 
-    // Validate photo data format
-    if (!photos[0] || typeof photos[0] !== "string" || !photos[0].startsWith("data:image/")) {
+    if (photos.length > ANGLE_ORDER.length) {
+      return new Response(JSON.stringify({ error: `At most ${ANGLE_ORDER.length} photos are allowed` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate photo data format and angle labels
+    const anglePhotos = normalizePhotos(photos);
+    if (!anglePhotos) {
       return new Response(JSON.stringify({ error: "Invalid photo format" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-    if (!GEMINI_API_KEY) {
-      return new Response(JSON.stringify({ error: "GEMINI_API_KEY not configured" }), {
+    // Confirm each image is what it claims and strip its metadata before it leaves this function
+    const sanitized = [];
+    for (const { angle, dataUrl } of anglePhotos) {
+      try {
+        const { mimeType, data } = sanitizeDataUrl(dataUrl);
+        sanitized.push({ angle, mimeType, data });
+      } catch (e) {
+        if (!(e instanceof ImageRejectedError)) throw e;
+        return new Response(JSON.stringify({ error: e.message, code: e.code, angle }), {
+          status: e.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    let provider: ModelProvider;
+    try {
+      provider = getProvider();
+    } catch (e) {
+      return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Model provider not configured" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    // ONE photo only
-    const { mimeType, data } = parseDataUrl(photos[0]);
+    // Every angle goes in as its own labeled image
+    const images = sanitized.map(({ angle, mimeType, data }) => ({
+      angle,
+      label: ANGLE_LABELS[angle],
+      mimeType,
+      data,
+    }));
+    const angleList = anglePhotos.map(p => p.angle).join(", ");
 
     const userText =
       `Return ONLY ONE LINE of MINIFIED JSON. No markdown. No extra text.
-Keys must be EXACTLY: score, confidence, summary, tags, hairline_type, hairline_description, personalized_tips
+Keys must be EXACTLY: score, confidence, summary, tags, hairline_type, hairline_description, personalized_tips, angles, metrics, image_quality
+You were given ${anglePhotos.length} labeled image(s): ${angleList}. Combine all of them for the overall result.
+Images are usually cropped to the forehead and hairline, and the eyes and lower face may be blurred for privacy; that alone is not a reason for usable=false.
+Crown and top-of-head images show no face by design; judge them on the visible hair and never report no_face for them.
 Rules:
 - score: 0-10 number (style score for fun)
 - confidence: 0-1 number
@@ -142,94 +238,77 @@ Rules:
 - hairline_type: style type e.g. "Classic", "Distinguished", "Youthful", "Mature", "Unique", "Sharp"
 - hairline_description: 1 fun sentence about this style
 - personalized_tips: array of 3 fun style tips (NOT medical), like hair styling or grooming
+- angles: array with one {"angle","note"} per image, angle exactly one of: ${angleList}; note <= 100 chars, fun
+- metrics: object with keys density, hairline, thickness, scalp, potential; each {"score":0-100 integer,"confidence":0-1} judged from the photos (density=fullness, hairline=shape, thickness=volume, scalp=condition, potential=styling potential); use low confidence when an angle needed for it is missing or unclear
+- image_quality: {"usable":boolean,"reasons":[...]}; usable=false only when the photos cannot be judged at all, with reasons from: ${IMAGE_QUALITY_REASONS.join(", ")} (no_face=no person in frame, hairline_not_visible=hairline covered or out of frame, too_dark=underexposed, blurry=out of focus, multiple_people=more than one person); reasons may also list minor problems when usable=true, otherwise []
 STOP AFTER THE FINAL }.
 
 Age:${answers?.ageRange || "NA"} Style:${answers?.timeframe || "NA"} Family:${answers?.familyHistory || "NA"} Routine:${answers?.shedding || "NA"} Care:${answers?.scalpIssues || "NA"}`;
 
-    // IMPORTANT: no responseSchema/responseJsonSchema at all (prevents 400s)
-    const body = {
-      systemInstruction: { parts: [{ text: systemText }] },
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { inline_data: { mime_type: mimeType, data } },
-            { text: userText },
-          ],
-        },
-      ],
-      generationConfig: {
+    // One automatic re-ask if the output fails schema validation
+    let checked: ValidationResult;
+    try {
+      checked = await generateModelOutput(provider, {
+        systemText,
+        userText,
+        images,
         temperature: 0.2,
-        maxOutputTokens: 512,
-        responseMimeType: "application/json",
-      },
-    };
-
-    const resp = await fetch(GEMINI_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-goog-api-key": GEMINI_API_KEY,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!resp.ok) {
-      const detail = await resp.text().catch(() => "");
-      if (resp.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "30" },
+        maxOutputTokens: 1024,
+      }, anglePhotos.map(p => p.angle));
+    } catch (e) {
+      if (e instanceof ProviderError) {
+        if (e.status === 429) {
+          return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
+            status: 429,
+            headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "30" },
+          });
+        }
+        return new Response(JSON.stringify({ error: e.message, provider: provider.name, status: e.status, detail: e.detail }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      return new Response(JSON.stringify({ error: "Gemini request failed", status: resp.status, detail: detail.slice(0, 1200) }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const out = await resp.json();
-    const finishReason = out?.candidates?.[0]?.finishReason;
-
-    const text =
-      out?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p?.text ?? "").join("").trim();
-
-    if (!text) {
-      return new Response(JSON.stringify({ error: "No content from model", finishReason }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      if (e instanceof ModelReplyError) {
+        return new Response(JSON.stringify({ error: e.message, provider: provider.name, finishReason: e.finishReason }), {
+          status: e.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw e;
     }
 
-    if (finishReason === "MAX_TOKENS") {
-      return new Response(JSON.stringify({ error: "Model output truncated (MAX_TOKENS). Try again.", finishReason }), {
+    if (!checked.ok) {
+      return new Response(JSON.stringify({
+        error: "Model output did not match the expected format",
+        code: "invalid_model_output",
+        provider: provider.name,
+        issues: checked.issues,
+      }), {
         status: 502,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const mini = safeJsonParse(text);
+    const mini = checked.value;
+    const { score, confidence, summary, tags } = mini;
 
-    // Expand to your full UI schema (simple, stable)
-    const score = Math.max(0, Math.min(10, Number(mini.score ?? 5)));
-    const confidence = Math.max(0, Math.min(1, Number(mini.confidence ?? 0.5)));
-    const summary = String(mini.summary ?? "Fun analysis of your look!").slice(0, 260);
-    const tags = Array.isArray(mini.tags) ? mini.tags.map(String).slice(0, 3) : [];
-    const hairlineType = mini.hairline_type ? String(mini.hairline_type) : undefined;
-    const hairlineDescription = mini.hairline_description ? String(mini.hairline_description) : undefined;
-    const personalizedTips = Array.isArray(mini.personalized_tips)
-      ? mini.personalized_tips.map(String).slice(0, 5)
-      : undefined;
+    // Per-angle notes, keyed back onto the photos that were actually sent
+    const angleNotes = new Map(mini.angles.map(a => [a.angle, a.note]));
+    const angleObservations = anglePhotos.map(({ angle }) => ({
+      angle,
+      label: getCaptureAngle(angle).label,
+      observation: angleNotes.get(angle) ?? "",
+    })).filter(a => a.observation);
 
     const result = {
       score,
       confidence,
       summary,
       observations: [
-        ...(tags.map((t: string) => `Your look: ${t}`)),
+        ...tags.map(t => `Your look: ${t}`),
         "Lighting and angle can affect how your style appears in photos.",
       ].slice(0, 4),
-      likely_patterns: tags.length ? tags : ["Natural style", "Unique look"],
+      likely_patterns: tags,
       general_options: [
         { title: "Style Tips", bullets: ["Take photos in consistent lighting for comparison.", "Good hair care starts with a healthy routine.", "Find a style that works for you!"] },
         { title: "Hair Care Basics", bullets: ["Use quality shampoo and conditioner.", "Protect your hair from heat damage.", "Stay hydrated and eat well."] },
@@ -237,9 +316,14 @@ Age:${answers?.ageRange || "NA"} Style:${answers?.timeframe || "NA"} Family:${an
       when_to_see_a_dermatologist: [],
       disclaimer:
         "Entertainment only — this is just for fun! Not medical advice. See a professional for any real concerns.",
-      hairline_type: hairlineType,
-      hairline_description: hairlineDescription,
-      personalized_tips: personalizedTips,
+      hairline_type: mini.hairline_type,
+      hairline_description: mini.hairline_description,
+      personalized_tips: mini.personalized_tips,
+      angles_analyzed: anglePhotos.map(p => p.angle),
+      angle_observations: angleObservations,
+      metrics: mini.metrics,
+      image_quality: mini.image_quality,
+      model: `${provider.name}/${provider.model}`,
     };
 
     return new Response(JSON.stringify(result), {
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { generateModelOutput, ModelReplyError, validateModelOutput } from "./modelOutput.ts";
+import type { GenerateRequest, GenerateResult, ModelProvider } from "./providers.ts";
+
+const validOutput = {
+  score: 4,
+  confidence: 0.8,
+  summary: "A classic look.",
+  tags: ["Classic"],
+  hairline_type: "Classic",
+  hairline_description: "An even hairline.",
+  personalized_tips: ["Try a light paste."],
+  angles: [{ angle: "front", note: "Nicely framed." }],
+  metrics: {
+    density: { score: 72, confidence: 0.8 },
+    hairline: { score: 68, confidence: 0.8 },
+    thickness: { score: 70, confidence: 0.7 },
+    scalp: { score: 80, confidence: 0.6 },
+    potential: { score: 85, confidence: 0.7 },
+  },
+  image_quality: { usable: true, reasons: [] },
+};
+
+const reply = (value: unknown) => JSON.stringify(value);
+
+describe("validateModelOutput", () => {
+  it("accepts output matching the schema, including fenced or padded JSON", () => {
+    for (const text of [reply(validOutput), "```json\n" + reply(validOutput) + "\n```", `Sure! ${reply(validOutput)} Done.`]) {
+      expect(validateModelOutput(text, ["front"])).toEqual({ ok: true, value: validOutput });
+    }
+  });
+
+  it.each([
+    ["no JSON at all", "I can't help with that.", "(root): reply is not a JSON object"],
+    ["a score out of range", reply({ ...validOutput, score: 11 }), "score:"],
+    ["a missing field", reply({ ...validOutput, summary: undefined }), "summary:"],
+    ["a missing metric", reply({ ...validOutput, metrics: { ...validOutput.metrics, scalp: undefined } }), "metrics.scalp:"],
+    ["an unknown image quality reason", reply({ ...validOutput, image_quality: { usable: false, reasons: ["bad_hair_day"] } }), "image_quality.reasons.0:"],
+    ["unusable photos without a reason", reply({ ...validOutput, image_quality: { usable: false, reasons: [] } }), "image_quality.reasons:"],
+    ["an angle that was not sent", reply({ ...validOutput, angles: [{ angle: "crown", note: "Hmm." }] }), 'angles: "crown" is not one of front'],
+  ])("rejects %s", (_, text, issue) => {
+    const result = validateModelOutput(text, ["front"]);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues.some(i => i.startsWith(issue))).toBe(true);
+  });
+});
+
+// Replays canned replies and records every prompt it was sent
+function scriptedProvider(replies: GenerateResult[]) {
+  const prompts: string[] = [];
+  const provider: ModelProvider = {
+    name: "scripted",
+    model: "test",
+    async generate(req) {
+      prompts.push(req.userText);
+      const next = replies.shift();
+      if (!next) throw new Error("No more scripted replies");
+      return next;
+    },
+  };
+  return { provider, prompts };
+}
+
+const request: GenerateRequest = {
+  systemText: "system",
+  userText: "Describe the photos.",
+  images: [],
+  temperature: 0.2,
+  maxOutputTokens: 1024,
+};
+const ok = (text: string): GenerateResult => ({ text, finishReason: "STOP", truncated: false });
+
+describe("generateModelOutput", () => {
+  it("returns the first reply when it is valid", async () => {
+    const { provider, prompts } = scriptedProvider([ok(reply(validOutput))]);
+
+    expect(await generateModelOutput(provider, request, ["front"])).toEqual({ ok: true, value: validOutput });
+    expect(prompts).toEqual(["Describe the photos."]);
+  });
+
+  it("re-asks once with the issues and the rejected reply", async () => {
+    const rejected = reply({ ...validOutput, score: 42 });
+    const { provider, prompts } = scriptedProvider([ok(rejected), ok(reply(validOutput))]);
+
+    expect(await generateModelOutput(provider, request, ["front"])).toEqual({ ok: true, value: validOutput });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("Describe the photos.");
+    expect(prompts[1]).toContain("Your previous reply was rejected:\n- score:");
+    expect(prompts[1]).toContain(`Previous reply: ${rejected}`);
+  });
+
+  it("gives up after one re-ask and reports the last issues", async () => {
+    const { provider, prompts } = scriptedProvider([ok("not json"), ok(reply({ ...validOutput, tags: [] })), ok(reply(validOutput))]);
+
+    const result = await generateModelOutput(provider, request, ["front"]);
+
+    expect(prompts).toHaveLength(2);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues[0]).toMatch(/^tags:/);
+  });
+
+  it.each([
+    ["an empty reply", { text: "", finishReason: "SAFETY", truncated: false }, 500],
+    ["a truncated reply", { text: "{\"score\":", finishReason: "MAX_TOKENS", truncated: true }, 502],
+  ])("throws ModelReplyError for %s without re-asking", async (_, generated, status) => {
+    const { provider, prompts } = scriptedProvider([generated, ok(reply(validOutput))]);
+
+    const error = await generateModelOutput(provider, request, ["front"]).catch(e => e);
+
+    expect(error).toBeInstanceOf(ModelReplyError);
+    expect(error).toMatchObject({ status, finishReason: generated.finishReason });
+    expect(prompts).toHaveLength(1);
+  });
+});
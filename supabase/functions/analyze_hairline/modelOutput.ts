@@ -0,0 +1,95 @@
+// Turns a provider's reply into a validated ModelOutput, re-asking once when the reply
+// does not match the shared schema.
+import { describeIssues, ModelOutputSchema, type ModelOutput } from "../_shared/analysisSchema.ts";
+import type { GenerateRequest, ModelProvider } from "./providers.ts";
+
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+export type ValidationResult =
+  | { ok: true; value: ModelOutput }
+  | { ok: false; issues: string[] };
+
+// The model replied without anything to validate; `status` is the HTTP status to return
+export class ModelReplyError extends Error {
+  status: number;
+  finishReason?: string;
+
+  constructor(message: string, status: number, finishReason?: string) {
+    super(message);
+    this.name = "ModelReplyError";
+    this.status = status;
+    this.finishReason = finishReason;
+  }
+}
+
+export function safeJsonParse(text: string) {
+  const t = (text || "")
+    .trim()
+    .replace(/^```json/i, "")
+    .replace(/^```/i, "")
+    .replace(/```$/i, "")
+    .trim();
+
+  try { return JSON.parse(t); } catch {
+    // Fallback: try to find JSON object in text
+  }
+
+  const first = t.indexOf("{");
+  const last = t.lastIndexOf("}");
+  if (first === -1 || last === -1 || last <= first) throw new Error("No JSON object found");
+  return JSON.parse(t.slice(first, last + 1));
+}
+
+// Parse the model's text and check it against the shared schema. Nothing is defaulted.
+export function validateModelOutput(text: string, sentAngles: string[]): ValidationResult {
+  let raw: unknown;
+  try {
+    raw = safeJsonParse(text);
+  } catch {
+    return { ok: false, issues: ["(root): reply is not a JSON object"] };
+  }
+
+  const parsed = ModelOutputSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { ok: false, issues: describeIssues(parsed.error) };
+  }
+
+  const unknownAngles = parsed.data.angles.filter(a => !sentAngles.includes(a.angle));
+  if (unknownAngles.length) {
+    return {
+      ok: false,
+      issues: unknownAngles.map(a => `angles: "${a.angle}" is not one of ${sentAngles.join(", ")}`),
+    };
+  }
+
+  return { ok: true, value: parsed.data };
+}
+
+// Generate, validate, and re-ask up to MAX_REPAIR_ATTEMPTS times with the issues found.
+// ProviderError from the provider and ModelReplyError for empty or truncated replies propagate.
+export async function generateModelOutput(
+  provider: ModelProvider,
+  request: GenerateRequest,
+  sentAngles: string[]
+): Promise<ValidationResult> {
+  let checked: ValidationResult = { ok: false, issues: [] };
+  let prompt = request.userText;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { text, finishReason, truncated } = await provider.generate({ ...request, userText: prompt });
+    if (!text) throw new ModelReplyError("No content from model", 500, finishReason);
+    if (truncated) throw new ModelReplyError("Model output truncated. Try again.", 502, finishReason);
+
+    checked = validateModelOutput(text, sentAngles);
+    if (checked.ok) return checked;
+
+    prompt = `${request.userText}
+
+Your previous reply was rejected:
+${checked.issues.map(i => `- ${i}`).join("\n")}
+Previous reply: ${text.slice(0, 800)}
+Reply again with corrected JSON only.`;
+  }
+
+  return checked;
+}
@@ -0,0 +1,210 @@
+// Model provider layer for analyze_hairline.
+// Pick one with MODEL_PROVIDER=gemini|openai|stub (defaults to gemini).
+
+export interface ImageInput {
+  angle: string;
+  label: string;
+  mimeType: string;
+  data: string; // base64, no data: prefix
+}
+
+export interface GenerateRequest {
+  systemText: string;
+  userText: string;
+  images: ImageInput[];
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  finishReason?: string;
+  truncated: boolean;
+}
+
+export interface ModelProvider {
+  name: string;
+  model: string;
+  generate(req: GenerateRequest): Promise<GenerateResult>;
+}
+
+// Upstream call failed; `status` is the HTTP status returned by the vendor
+export class ProviderError extends Error {
+  status: number;
+  detail: string;
+
+  constructor(message: string, status: number, detail = "") {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+// Provider selected but missing its secrets/config
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
+
+async function throwForStatus(resp: Response, providerName: string): Promise<void> {
+  if (resp.ok) return;
+  const detail = await resp.text().catch(() => "");
+  throw new ProviderError(`${providerName} request failed`, resp.status, detail.slice(0, 1200));
+}
+
+// Google Gemini generateContent API
+function createGeminiProvider(): ModelProvider {
+  const apiKey = Deno.env.get("GEMINI_API_KEY");
+  if (!apiKey) throw new ProviderConfigError("GEMINI_API_KEY not configured");
+
+  const model = Deno.env.get("GEMINI_MODEL") || "gemini-2.0-flash";
+  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
+
+  return {
+    name: "gemini",
+    model,
+    async generate(req) {
+      const imageParts = req.images.flatMap((img, i) => [
+        { text: `Image ${i + 1} (${img.angle}): ${img.label}` },
+        { inline_data: { mime_type: img.mimeType, data: img.data } },
+      ]);
+
+      // IMPORTANT: no responseSchema/responseJsonSchema at all (prevents 400s)
+      const body = {
+        systemInstruction: { parts: [{ text: req.systemText }] },
+        contents: [
+          {
+            role: "user",
+            parts: [...imageParts, { text: req.userText }],
+          },
+        ],
+        generationConfig: {
+          temperature: req.temperature,
+          maxOutputTokens: req.maxOutputTokens,
+          responseMimeType: "application/json",
+        },
+      };
+
+      const resp = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        body: JSON.stringify(body),
+      });
+      await throwForStatus(resp, "Gemini");
+
+      const out = await resp.json();
+      const finishReason = out?.candidates?.[0]?.finishReason;
+      const text =
+        out?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p?.text ?? "").join("").trim() ?? "";
+
+      return { text, finishReason, truncated: finishReason === "MAX_TOKENS" };
+    },
+  };
+}
+
+// Any OpenAI-compatible /chat/completions endpoint (OpenAI, OpenRouter, vLLM, Ollama...)
+function createOpenAIProvider(): ModelProvider {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  const baseUrl = (Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1").replace(/\/+$/, "");
+  const model = Deno.env.get("OPENAI_MODEL") || "gpt-4o-mini";
+  // Self-hosted endpoints often run without a key; the hosted default does not
+  if (!apiKey && !Deno.env.get("OPENAI_BASE_URL")) {
+    throw new ProviderConfigError("OPENAI_API_KEY not configured");
+  }
+
+  return {
+    name: "openai",
+    model,
+    async generate(req) {
+      const content = [
+        ...req.images.flatMap((img, i) => [
+          { type: "text", text: `Image ${i + 1} (${img.angle}): ${img.label}` },
+          { type: "image_url", image_url: { url: `data:${img.mimeType};base64,${img.data}` } },
+        ]),
+        { type: "text", text: req.userText },
+      ];
+
+      const body = {
+        model,
+        messages: [
+          { role: "system", content: req.systemText },
+          { role: "user", content },
+        ],
+        temperature: req.temperature,
+        max_tokens: req.maxOutputTokens,
+        response_format: { type: "json_object" },
+      };
+
+      const resp = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      await throwForStatus(resp, "OpenAI-compatible");
+
+      const out = await resp.json();
+      const choice = out?.choices?.[0];
+      const finishReason = choice?.finish_reason;
+      const text = typeof choice?.message?.content === "string" ? choice.message.content.trim() : "";
+
+      return { text, finishReason, truncated: finishReason === "length" };
+    },
+  };
+}
+
+// Deterministic offline provider for local dev and CI. Never touches the network.
+function createStubProvider(): ModelProvider {
+  return {
+    name: "stub",
+    model: "stub-v1",
+    async generate(req) {
+      const mini = {
+        score: 4,
+        confidence: 0.8,
+        summary: "Stub result: a classic look captured from every angle.",
+        tags: ["Classic", "Well framed"],
+        hairline_type: "Classic",
+        hairline_description: "A steady, even hairline — this is a stub response.",
+        personalized_tips: [
+          "Try a light texture paste for volume.",
+          "Keep the sides tidy between cuts.",
+          "Good lighting makes every style pop.",
+        ],
+        angles: req.images.map(img => ({ angle: img.angle, note: `Stub note for the ${img.label.toLowerCase()}.` })),
+        metrics: {
+          density: { score: 72, confidence: 0.8 },
+          hairline: { score: 68, confidence: 0.8 },
+          thickness: { score: 70, confidence: 0.7 },
+          scalp: { score: 80, confidence: 0.6 },
+          potential: { score: 85, confidence: 0.7 },
+        },
+        image_quality: { usable: true, reasons: [] },
+      };
+      return { text: JSON.stringify(mini), finishReason: "STOP", truncated: false };
+    },
+  };
+}
+
+const PROVIDERS: Record<string, () => ModelProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  stub: createStubProvider,
+};
+
+export function getProvider(): ModelProvider {
+  const name = (Deno.env.get("MODEL_PROVIDER") || "gemini").toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new ProviderConfigError(`Unknown MODEL_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(", ")})`);
+  }
+  return factory();
+}
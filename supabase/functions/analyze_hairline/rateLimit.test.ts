@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  createBucketKeyHasher,
+  decide,
+  MemoryRateLimitStore,
+  rateLimitHeaders,
+  type BucketSpec,
+} from "./rateLimit.ts";
+
+const MINUTE = 60_000;
+
+// The store and decide() take `now` explicitly, so a plain counter is the clock
+function fakeClock(start = 1_700_000_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+const device: BucketSpec = { key: "device:a", limit: 3, windowMs: 10 * MINUTE };
+const ip: BucketSpec = { key: "ip:a", limit: 5, windowMs: 10 * MINUTE };
+
+describe("MemoryRateLimitStore", () => {
+  it("allows up to the limit inside the window, then denies", async () => {
+    const store = new MemoryRateLimitStore();
+    const clock = fakeClock();
+
+    const allowed = [];
+    for (let i = 0; i < 4; i++) {
+      allowed.push((await store.hit([device], clock.now())).allowed);
+      clock.advance(MINUTE);
+    }
+
+    expect(allowed).toEqual([true, true, true, false]);
+  });
+
+  it("frees a slot once the oldest hit leaves the window", async () => {
+    const store = new MemoryRateLimitStore();
+    const clock = fakeClock();
+    const first = clock.now();
+    for (let i = 0; i < 3; i++) {
+      await store.hit([device], clock.now());
+      clock.advance(MINUTE);
+    }
+
+    // A hit counts while it is less than windowMs old
+    clock.advance(first + device.windowMs - 1 - clock.now());
+    expect((await store.hit([device], clock.now())).allowed).toBe(false);
+
+    clock.advance(1);
+    const result = await store.hit([device], clock.now());
+    expect(result.allowed).toBe(true);
+    expect(result.buckets[0]).toMatchObject({ hits: 3, oldestHitAt: first + MINUTE });
+  });
+
+  it("does not record a denied request", async () => {
+    const store = new MemoryRateLimitStore();
+    const clock = fakeClock();
+    for (let i = 0; i < 3; i++) await store.hit([device], clock.now());
+
+    clock.advance(MINUTE);
+    await store.hit([device], clock.now());
+
+    // All three recorded hits expire together; the denied one would still be live
+    clock.advance(device.windowMs - MINUTE + 1);
+    const result = await store.hit([device], clock.now());
+    expect(result.allowed).toBe(true);
+    expect(result.buckets[0].hits).toBe(1);
+  });
+
+  it("denies when any bucket is full and records nothing in the others", async () => {
+    const store = new MemoryRateLimitStore();
+    const clock = fakeClock();
+    for (let i = 0; i < 3; i++) await store.hit([device, ip], clock.now());
+
+    const denied = await store.hit([device, ip], clock.now());
+    expect(denied.allowed).toBe(false);
+    expect(denied.buckets.map(b => b.hits)).toEqual([3, 3]);
+
+    // Another device behind the same IP still has the IP's remaining room
+    const other = await store.hit([{ ...device, key: "device:b" }, ip], clock.now());
+    expect(other.allowed).toBe(true);
+    expect(other.buckets[1].hits).toBe(4);
+  });
+});
+
+describe("decide", () => {
+  const now = 1_700_000_000_000;
+
+  it.each([
+    {
+      name: "allowed: reports the bucket with the least room",
+      result: {
+        allowed: true,
+        buckets: [
+          { ...device, hits: 2, oldestHitAt: now - 3 * MINUTE },
+          { ...ip, hits: 2, oldestHitAt: now - MINUTE },
+        ],
+      },
+      expected: { allowed: true, bucket: "device:a", limit: 3, remaining: 1, resetAt: now + 7 * MINUTE, retryAfterSeconds: 0 },
+    },
+    {
+      name: "denied: reports the full bucket, waiting for its oldest hit to expire",
+      result: {
+        allowed: false,
+        buckets: [
+          { ...device, hits: 1, oldestHitAt: now - MINUTE },
+          { ...ip, hits: 5, oldestHitAt: now - 9 * MINUTE - 30_500 },
+        ],
+      },
+      expected: { allowed: false, bucket: "ip:a", limit: 5, remaining: 0, resetAt: now + 29_500, retryAfterSeconds: 30 },
+    },
+    {
+      name: "denied with several full buckets: reports the one that frees up last",
+      result: {
+        allowed: false,
+        buckets: [
+          { ...device, hits: 3, oldestHitAt: now - 2 * MINUTE },
+          { ...ip, hits: 5, oldestHitAt: now - 8 * MINUTE },
+        ],
+      },
+      expected: { bucket: "device:a", resetAt: now + 8 * MINUTE, retryAfterSeconds: 480 },
+    },
+    {
+      name: "empty bucket: resets one window from now",
+      result: { allowed: true, buckets: [{ ...device, hits: 0, oldestHitAt: null }] },
+      expected: { remaining: 3, resetAt: now + device.windowMs },
+    },
+  ])("$name", ({ result, expected }) => {
+    expect(decide(result, now)).toMatchObject(expected);
+  });
+
+  it("waits at least a second before a retry", () => {
+    const decision = decide({ allowed: false, buckets: [{ ...device, hits: 3, oldestHitAt: now - device.windowMs + 10 }] }, now);
+    expect(decision.retryAfterSeconds).toBe(1);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("adds Retry-After only when denied", () => {
+    const base = { limit: 3, remaining: 0, resetAt: 1_700_000_000_500, bucket: "device:a" };
+
+    expect(rateLimitHeaders({ ...base, allowed: true, retryAfterSeconds: 0 })).toEqual({
+      "X-RateLimit-Limit": "3",
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": "1700000001",
+    });
+    expect(rateLimitHeaders({ ...base, allowed: false, retryAfterSeconds: 12 })).toMatchObject({ "Retry-After": "12" });
+  });
+});
+
+describe("createBucketKeyHasher", () => {
+  it("keys buckets by an HMAC that never contains the raw value", async () => {
+    const hash = createBucketKeyHasher("secret");
+
+    const key = await hash("ip", "203.0.113.7");
+
+    expect(key).toMatch(/^ip:[0-9a-f]{64}$/);
+    expect(key).not.toContain("203.0.113.7");
+    expect(await hash("ip", "203.0.113.7")).toBe(key);
+    expect(await hash("device", "203.0.113.7")).not.toBe(key);
+    expect(await createBucketKeyHasher("other secret")("ip", "203.0.113.7")).not.toBe(key);
+  });
+});
@@ -0,0 +1,147 @@
+// Sliding-window rate limiting for analyze_hairline.
+// Each request is counted against several buckets (IP, device id, signed-in user);
+// it is allowed only if every bucket has room, and then recorded in all of them.
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+export interface BucketSpec {
+  key: string; // "<kind>:<hmac>", e.g. "ip:3f9a…" - see createBucketKeyHasher
+  limit: number;
+  windowMs: number;
+}
+
+export interface BucketState extends BucketSpec {
+  hits: number; // hits inside the window, including this one if it was allowed
+  oldestHitAt: number | null; // epoch ms of the oldest hit still inside the window
+}
+
+export interface RateLimitStore {
+  name: string;
+  // Atomically check every bucket and, if all have room, record one hit in each
+  hit(buckets: BucketSpec[], now: number): Promise<{ allowed: boolean; buckets: BucketState[] }>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms when the most constrained bucket frees a slot
+  retryAfterSeconds: number;
+  bucket: string; // most constrained bucket key
+}
+
+// Per-process store for local dev and tests. Not shared across instances.
+export class MemoryRateLimitStore implements RateLimitStore {
+  name = "memory";
+  private hitsByBucket = new Map<string, number[]>();
+
+  async hit(buckets: BucketSpec[], now: number) {
+    const windows = buckets.map(b => {
+      const live = (this.hitsByBucket.get(b.key) ?? []).filter(t => t > now - b.windowMs);
+      this.hitsByBucket.set(b.key, live);
+      return live;
+    });
+
+    const allowed = buckets.every((b, i) => windows[i].length < b.limit);
+    if (allowed) windows.forEach(w => w.push(now));
+
+    return {
+      allowed,
+      buckets: buckets.map((b, i) => ({
+        ...b,
+        hits: windows[i].length,
+        oldestHitAt: windows[i].length ? windows[i][0] : null,
+      })),
+    };
+  }
+}
+
+// Backed by public.rate_limit_hit() (see supabase/migrations), shared by every instance
+export class PostgresRateLimitStore implements RateLimitStore {
+  name = "postgres";
+
+  constructor(private client: SupabaseClient) {}
+
+  async hit(buckets: BucketSpec[], _now: number) {
+    const { data, error } = await this.client.rpc("rate_limit_hit", {
+      p_buckets: buckets.map(b => ({ key: b.key, limit: b.limit, window_ms: b.windowMs })),
+    });
+    if (error) throw new Error(`Rate limit store failed: ${error.message}`);
+
+    const rows = (data ?? []) as { bucket: string; allowed: boolean; hits: number; oldest_hit_at: string | null }[];
+    const byKey = new Map(rows.map(r => [r.bucket, r]));
+
+    return {
+      allowed: rows.length > 0 && rows.every(r => r.allowed),
+      buckets: buckets.map(b => {
+        const row = byKey.get(b.key);
+        return {
+          ...b,
+          hits: row?.hits ?? 0,
+          oldestHitAt: row?.oldest_hit_at ? Date.parse(row.oldest_hit_at) : null,
+        };
+      }),
+    };
+  }
+}
+
+// Bucket keys are "<kind>:<hex HMAC-SHA256 of the value>", so the store never holds a raw
+// IP address, device id or user id. Without a secret (local dev) a random per-process key is used.
+export function createBucketKeyHasher(secret: string | undefined): (kind: string, value: string) => Promise<string> {
+  const keyBytes = secret ? new TextEncoder().encode(secret) : crypto.getRandomValues(new Uint8Array(32));
+  const cryptoKey = crypto.subtle.importKey("raw", keyBytes, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+
+  return async (kind, value) => {
+    const mac = await crypto.subtle.sign("HMAC", await cryptoKey, new TextEncoder().encode(`${kind}:${value}`));
+    const hex = Array.from(new Uint8Array(mac), b => b.toString(16).padStart(2, "0")).join("");
+    return `${kind}:${hex}`;
+  };
+}
+
+// Service-role client when running on Supabase; null locally
+export function getServiceClient(): SupabaseClient | null {
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) return null;
+  return createClient(url, key, { auth: { persistSession: false, autoRefreshToken: false } });
+}
+
+// RATE_LIMIT_STORE=memory|postgres; defaults to postgres whenever a service client exists
+export function createRateLimitStore(client: SupabaseClient | null): RateLimitStore {
+  const requested = (Deno.env.get("RATE_LIMIT_STORE") || "").toLowerCase();
+  if (requested === "memory" || !client) return new MemoryRateLimitStore();
+  return new PostgresRateLimitStore(client);
+}
+
+// Fold per-bucket state into one decision, reporting the most constrained bucket
+export function decide(result: { allowed: boolean; buckets: BucketState[] }, now: number): RateLimitDecision {
+  const states = result.buckets.map(b => {
+    const remaining = Math.max(0, b.limit - b.hits);
+    const resetAt = b.oldestHitAt !== null ? b.oldestHitAt + b.windowMs : now + b.windowMs;
+    return { b, remaining, resetAt };
+  });
+
+  // Denied: the bucket that is full and frees up last. Allowed: the one with least room.
+  const candidates = result.allowed ? states : states.filter(s => s.remaining === 0);
+  const worst = (candidates.length ? candidates : states).reduce((a, s) =>
+    s.remaining < a.remaining || (s.remaining === a.remaining && s.resetAt > a.resetAt) ? s : a
+  );
+
+  return {
+    allowed: result.allowed,
+    limit: worst.b.limit,
+    remaining: worst.remaining,
+    resetAt: worst.resetAt,
+    retryAfterSeconds: result.allowed ? 0 : Math.max(1, Math.ceil((worst.resetAt - now) / 1000)),
+    bucket: worst.b.key,
+  };
+}
+
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(decision.resetAt / 1000)),
+  };
+  if (!decision.allowed) headers["Retry-After"] = String(decision.retryAfterSeconds);
+  return headers;
+}
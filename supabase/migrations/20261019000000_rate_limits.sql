@@ -0,0 +1,66 @@
+-- Sliding-window rate limiting for the analyze_hairline edge function.
+-- One row per accepted request per bucket ("ip:…", "device:…", "user:…").
+
+create table if not exists public.rate_limit_hits (
+  id bigint generated always as identity primary key,
+  bucket text not null,
+  hit_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists rate_limit_hits_bucket_hit_at_idx
+  on public.rate_limit_hits (bucket, hit_at);
+
+-- Only the service role (edge function) touches this table
+alter table public.rate_limit_hits enable row level security;
+
+-- p_buckets: [{ "key": text, "limit": int, "window_ms": int }, ...]
+-- Records a hit in every bucket only if all of them have room.
+create or replace function public.rate_limit_hit(p_buckets jsonb)
+returns table (bucket text, allowed boolean, hits int, oldest_hit_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_allowed boolean;
+begin
+  -- Serialize concurrent requests touching the same bucket
+  perform pg_advisory_xact_lock(hashtext(s->>'key'))
+  from jsonb_array_elements(p_buckets) s
+  order by s->>'key';
+
+  -- Drop hits that have slid out of each bucket's window
+  delete from rate_limit_hits h
+  using jsonb_array_elements(p_buckets) s
+  where h.bucket = s->>'key'
+    and h.hit_at <= v_now - (s->>'window_ms')::int * interval '1 millisecond';
+
+  select coalesce(bool_and(c.n < c.lim), true) into v_allowed
+  from (
+    select (s->>'limit')::int as lim,
+           (select count(*) from rate_limit_hits h where h.bucket = s->>'key') as n
+    from jsonb_array_elements(p_buckets) s
+  ) c;
+
+  if v_allowed then
+    insert into rate_limit_hits (bucket, hit_at)
+    select s->>'key', v_now from jsonb_array_elements(p_buckets) s;
+  end if;
+
+  -- Occasionally purge buckets nobody has hit for a day
+  if random() < 0.01 then
+    delete from rate_limit_hits where hit_at < v_now - interval '1 day';
+  end if;
+
+  return query
+  select s->>'key',
+         v_allowed,
+         (select count(*)::int from rate_limit_hits h where h.bucket = s->>'key'),
+         (select min(h.hit_at) from rate_limit_hits h where h.bucket = s->>'key')
+  from jsonb_array_elements(p_buckets) s;
+end;
+$$;
+
+revoke all on function public.rate_limit_hit(jsonb) from public, anon, authenticated;
+grant execute on function public.rate_limit_hit(jsonb) to service_role;
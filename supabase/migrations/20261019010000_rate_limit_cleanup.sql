@@ -0,0 +1,25 @@
+-- Rate limit buckets are now keyed by an HMAC of the IP, device id or user id (see
+-- createBucketKeyHasher). Rows written before that hold raw identifiers and no longer
+-- match any bucket, so drop them.
+delete from public.rate_limit_hits;
+
+-- The longest window is 10 minutes; anything older than an hour is never read again
+create or replace function public.rate_limit_purge()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from rate_limit_hits where hit_at < clock_timestamp() - interval '1 hour';
+$$;
+
+revoke all on function public.rate_limit_purge() from public, anon, authenticated;
+
+-- Purge every 15 minutes with pg_cron
+create extension if not exists pg_cron with schema extensions;
+
+select cron.schedule(
+  'rate-limit-purge',
+  '*/15 * * * *',
+  $$select public.rate_limit_purge()$$
+);